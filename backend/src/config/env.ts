@@ -1,8 +1,15 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { parseDetectors } from '../utils/scrubber';
 
 dotenv.config();
 
+// Positive integer setting; missing, invalid or values below 1 fall back to the default
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : fallback;
+}
+
 export const config = {
   // Server
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -24,13 +31,47 @@ export const config = {
   // Monitoring
   cronSchedule: process.env.CRON_SCHEDULE || '0 2 * * *',
   browserTimeout: parseInt(process.env.BROWSER_TIMEOUT || '30000', 10),
+  // Time limit for each journey step that doesn't set its own
+  journeyStepTimeout: parseInt(process.env.JOURNEY_STEP_TIMEOUT || '10000', 10),
   screenshotDir: process.env.SCREENSHOT_DIR || path.join(__dirname, '../../screenshots'),
-  maxConcurrentChecks: parseInt(process.env.MAX_CONCURRENT_CHECKS || '5', 10),
+  // Record a HAR and a Playwright trace per check, kept next to screenshots for
+  // checks that detect errors or end in error/timeout
+  recordCheckArtifacts: process.env.RECORD_CHECK_ARTIFACTS !== 'false',
+  // Checks in flight at once, in total and per browser engine / target host
+  maxConcurrentChecks: positiveInt(process.env.MAX_CONCURRENT_CHECKS, 5),
+  maxChecksPerEngine: positiveInt(process.env.MAX_CHECKS_PER_ENGINE, 5),
+  maxChecksPerHost: positiveInt(process.env.MAX_CHECKS_PER_HOST, 2),
+  // Browser pool: a browser is replaced after this many checks, and closed when idle
+  browserPoolMaxUses: positiveInt(process.env.BROWSER_POOL_MAX_USES, 100),
+  browserPoolIdleMs: positiveInt(process.env.BROWSER_POOL_IDLE_MS, 60000),
   cookieName: process.env.COOKIE_NAME || 'ab_test_error',
   pageSize: parseInt(process.env.PAGE_SIZE || '50', 10),
   maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
   retryDelayMs: parseInt(process.env.RETRY_DELAY_MS || '1000', 10),
   maxErrorMessageLength: parseInt(process.env.MAX_ERROR_MESSAGE_LENGTH || '2000', 10),
+  // Preset SDK consent in the crawler's browser so consent-mode loggers write errors
+  crawlerGrantConsent: process.env.CRAWLER_GRANT_CONSENT !== 'false',
+  // Console errors and uncaught exceptions kept per check; those matching a pattern
+  // (comma-separated, case-insensitive regexes) are also stored as failures
+  consoleMaxMessages: positiveInt(process.env.CONSOLE_MAX_MESSAGES, 50),
+  consoleFailurePatterns: (process.env.CONSOLE_FAILURE_PATTERNS || '')
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean),
+  // Failed requests and 4xx/5xx responses kept per check
+  networkMaxFailures: positiveInt(process.env.NETWORK_MAX_FAILURES, 50),
+
+  // PII scrubbing: built-in detectors applied to error messages before storing
+  scrubDetectors: parseDetectors(process.env.SCRUB_DETECTORS ?? 'email,jwt,card,querySecret'),
+
+  // Source maps
+  sourceMapDir: process.env.SOURCE_MAP_DIR || path.join(__dirname, '../../source-maps'),
+  sourceMapMaxSize: process.env.SOURCE_MAP_MAX_SIZE || '10mb',
+
+  // Real-user error ingestion
+  ingestRateLimitWindowMs: parseInt(process.env.INGEST_RATE_LIMIT_WINDOW_MS || '60000', 10),
+  ingestRateLimitMax: parseInt(process.env.INGEST_RATE_LIMIT_MAX || '300', 10),
+  ingestMaxBatchSize: parseInt(process.env.INGEST_MAX_BATCH_SIZE || '50', 10),
 
   // CORS
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
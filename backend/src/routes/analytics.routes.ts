@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { analyticsService } from '../services/analyticsService';
+import { isValidReportSource } from '../utils/validators';
 
 const router = Router();
 
@@ -79,6 +80,67 @@ router.get('/top-errors', async (req: Request, res: Response, next: NextFunction
   }
 });
 
+// GET /error-rates - failures per exposure for each test variant
+// (optional ?days, ?source=crawler|rum and ?client_id query params)
+router.get('/error-rates', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : undefined;
+    const source = req.query.source as string | undefined;
+
+    // Validate days and source
+    if (days !== undefined && (isNaN(days) || days < 1)) {
+      res.status(400).json({
+        error: 'Invalid days. Must be a positive integer.',
+      });
+      return;
+    }
+
+    if (source !== undefined && !isValidReportSource(source)) {
+      res.status(400).json({
+        error: 'Invalid source. Must be one of: crawler, rum',
+      });
+      return;
+    }
+
+    const clientId = req.query.client_id ? parseInt(req.query.client_id as string, 10) : undefined;
+    const data = await analyticsService.getErrorRatesByVariant(days, source, clientId);
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /vitals - Core Web Vitals (p75 and average) for each test variant
+// (optional ?days, ?source=crawler|rum, ?client_id and ?test_id query params)
+router.get('/vitals', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : undefined;
+    const source = req.query.source as string | undefined;
+
+    // Validate days and source
+    if (days !== undefined && (isNaN(days) || days < 1)) {
+      res.status(400).json({
+        error: 'Invalid days. Must be a positive integer.',
+      });
+      return;
+    }
+
+    if (source !== undefined && !isValidReportSource(source)) {
+      res.status(400).json({
+        error: 'Invalid source. Must be one of: crawler, rum',
+      });
+      return;
+    }
+
+    const clientId = req.query.client_id ? parseInt(req.query.client_id as string, 10) : undefined;
+    const testId = req.query.test_id as string | undefined;
+    const data = await analyticsService.getVitalsByVariant(days, source, clientId, testId);
+    res.json(data);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /client/:id - client stats
 router.get('/client/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -1,6 +1,8 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { clientService } from '../services/clientService';
+import { scrubRuleService } from '../services/scrubRuleService';
+import { errorTypeService } from '../services/errorTypeService';
 
 const router = Router();
 
@@ -73,4 +75,83 @@ router.patch('/:id/status', async (req: Request, res: Response, next: NextFuncti
   }
 });
 
+// POST /:id/site-key - regenerate the public site key used for real-user error ingestion
+router.post('/:id/site-key', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = parseInt(req.params.id, 10);
+    const siteKey = await clientService.regenerateSiteKey(clientId);
+    res.json({ site_key: siteKey, message: 'Site key regenerated successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /:id/scrub-rules - list custom PII scrubbing rules
+router.get('/:id/scrub-rules', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = parseInt(req.params.id, 10);
+    const rules = await scrubRuleService.list(clientId);
+    res.json(rules);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /:id/scrub-rules - add custom PII scrubbing rule
+router.post('/:id/scrub-rules', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = parseInt(req.params.id, 10);
+    const ruleId = await scrubRuleService.create(clientId, req.body);
+    res.status(201).json({ rule_id: ruleId, message: 'Scrub rule created successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /:id/scrub-rules/:ruleId - delete custom PII scrubbing rule
+router.delete('/:id/scrub-rules/:ruleId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = parseInt(req.params.id, 10);
+    const ruleId = parseInt(req.params.ruleId, 10);
+    await scrubRuleService.delete(clientId, ruleId);
+    res.json({ message: 'Scrub rule deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /:id/error-types - list custom error type codes
+router.get('/:id/error-types', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = parseInt(req.params.id, 10);
+    const errorTypes = await errorTypeService.list(clientId);
+    res.json(errorTypes);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /:id/error-types - register custom error type code
+router.post('/:id/error-types', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = parseInt(req.params.id, 10);
+    const errorTypeId = await errorTypeService.create(clientId, req.body);
+    res.status(201).json({ error_type_id: errorTypeId, message: 'Error type created successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /:id/error-types/:errorTypeId - delete custom error type code
+router.delete('/:id/error-types/:errorTypeId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = parseInt(req.params.id, 10);
+    const errorTypeId = parseInt(req.params.errorTypeId, 10);
+    await errorTypeService.delete(clientId, errorTypeId);
+    res.json({ message: 'Error type deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { failureService } from '../services/failureService';
+import { artifactService } from '../services/artifactService';
 
 const router = Router();
 
@@ -15,6 +16,7 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
       test_id: req.query.test_id as string | undefined,
       error_type: req.query.error_type as string | undefined,
       browser: req.query.browser as string | undefined,
+      source: req.query.source as string | undefined,
       client_id: req.query.client_id ? parseInt(req.query.client_id as string, 10) : undefined,
       url_id: req.query.url_id ? parseInt(req.query.url_id as string, 10) : undefined,
       date_from: req.query.start_date as string | undefined,
@@ -111,11 +113,44 @@ router.post('/bulk-status', async (req: Request, res: Response, next: NextFuncti
 router.get('/:id/screenshot', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const failureId = parseInt(req.params.id, 10);
-    const screenshotPath = await failureService.getScreenshotPath(failureId);
+    const screenshotPath = await artifactService.getFailureArtifactPath(failureId, 'screenshot');
     res.sendFile(screenshotPath);
   } catch (error) {
     next(error);
   }
 });
 
+// GET /:id/har - download the check's HAR file
+router.get('/:id/har', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const failureId = parseInt(req.params.id, 10);
+    const harPath = await artifactService.getFailureArtifactPath(failureId, 'har');
+    res.download(harPath, `failure-${failureId}.har`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /:id/trace - download the check's Playwright trace
+router.get('/:id/trace', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const failureId = parseInt(req.params.id, 10);
+    const tracePath = await artifactService.getFailureArtifactPath(failureId, 'trace');
+    res.download(tracePath, `failure-${failureId}-trace.zip`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /:id/video - serve the check's video
+router.get('/:id/video', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const failureId = parseInt(req.params.id, 10);
+    const videoPath = await artifactService.getFailureArtifactPath(failureId, 'video');
+    res.sendFile(videoPath);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,85 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import cors from 'cors';
+import rateLimit from 'express-rate-limit';
+import { ingestService } from '../services/ingestService';
+import { config } from '../config/env';
+
+const router = Router();
+
+// The SDK sends the site key as a query parameter because sendBeacon cannot set headers
+function getSiteKey(req: Request): string | undefined {
+  return (req.query.key as string | undefined) || req.get('x-ab-site-key');
+}
+
+// Public endpoint: reports come from any client site; origins are checked per site key
+router.use(cors({ origin: true }));
+
+const ingestLimiter = rateLimit({
+  windowMs: config.ingestRateLimitWindowMs,
+  max: config.ingestRateLimitMax,
+  keyGenerator: (req: Request) => getSiteKey(req) || req.ip || 'anonymous',
+  message: { error: 'Too many error reports for this site key, please try again later' },
+});
+
+// POST / - ingest compact SDK error payloads from real visitors
+router.post(
+  '/',
+  ingestLimiter,
+  // Beacons are sent as text/plain to avoid CORS preflight, so parse the body as text
+  express.text({ type: () => true, limit: '64kb' }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const accepted = await ingestService.ingest(
+        getSiteKey(req),
+        req.get('origin'),
+        req.get('referer'),
+        req.body
+      );
+      res.status(202).json({ accepted });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /exposures - ingest variant exposure counts from real visitors
+router.post(
+  '/exposures',
+  ingestLimiter,
+  express.text({ type: () => true, limit: '64kb' }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const accepted = await ingestService.ingestExposures(
+        getSiteKey(req),
+        req.get('origin'),
+        req.get('referer'),
+        req.body
+      );
+      res.status(202).json({ accepted });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /vitals - ingest Core Web Vitals samples from real visitors
+router.post(
+  '/vitals',
+  ingestLimiter,
+  express.text({ type: () => true, limit: '64kb' }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const accepted = await ingestService.ingestVitals(
+        getSiteKey(req),
+        req.get('origin'),
+        req.get('referer'),
+        req.body
+      );
+      res.status(202).json({ accepted });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { monitoringService } from '../services/monitoringService';
+import { consoleService } from '../services/consoleService';
+import { networkService } from '../services/networkService';
+import { artifactService } from '../services/artifactService';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -157,4 +160,106 @@ router.get('/runs/:id/checks', async (req: Request, res: Response, next: NextFun
   }
 });
 
+// GET /runs/:id/console - console errors and uncaught exceptions captured by the run's checks
+router.get('/runs/:id/console', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const runId = parseInt(req.params.id, 10);
+
+    // Validate runId
+    if (isNaN(runId) || runId < 1) {
+      res.status(400).json({
+        error: 'Invalid run ID. Must be a positive integer.',
+      });
+      return;
+    }
+
+    const messages = await consoleService.listForRun(runId);
+    res.json(messages);
+  } catch (error) {
+    logger.error(`Failed to fetch console messages for run ${req.params.id}:`, error);
+    next(error);
+  }
+});
+
+// GET /runs/:id/network - failed requests and 4xx/5xx responses seen by the run's checks
+router.get('/runs/:id/network', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const runId = parseInt(req.params.id, 10);
+
+    // Validate runId
+    if (isNaN(runId) || runId < 1) {
+      res.status(400).json({
+        error: 'Invalid run ID. Must be a positive integer.',
+      });
+      return;
+    }
+
+    const failures = await networkService.listForRun(runId);
+    res.json(failures);
+  } catch (error) {
+    logger.error(`Failed to fetch network failures for run ${req.params.id}:`, error);
+    next(error);
+  }
+});
+
+// GET /checks/:id/har - download a check's HAR file
+router.get('/checks/:id/har', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const checkId = parseInt(req.params.id, 10);
+
+    // Validate checkId
+    if (isNaN(checkId) || checkId < 1) {
+      res.status(400).json({
+        error: 'Invalid check ID. Must be a positive integer.',
+      });
+      return;
+    }
+
+    const filePath = await artifactService.getCheckArtifactPath(checkId, 'har');
+    res.download(filePath, `check-${checkId}.har`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /checks/:id/trace - download a check's Playwright trace
+router.get('/checks/:id/trace', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const checkId = parseInt(req.params.id, 10);
+
+    // Validate checkId
+    if (isNaN(checkId) || checkId < 1) {
+      res.status(400).json({
+        error: 'Invalid check ID. Must be a positive integer.',
+      });
+      return;
+    }
+
+    const filePath = await artifactService.getCheckArtifactPath(checkId, 'trace');
+    res.download(filePath, `check-${checkId}-trace.zip`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /checks/:id/video - serve a check's video
+router.get('/checks/:id/video', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const checkId = parseInt(req.params.id, 10);
+
+    // Validate checkId
+    if (isNaN(checkId) || checkId < 1) {
+      res.status(400).json({
+        error: 'Invalid check ID. Must be a positive integer.',
+      });
+      return;
+    }
+
+    const videoPath = await artifactService.getCheckArtifactPath(checkId, 'video');
+    res.sendFile(videoPath);
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
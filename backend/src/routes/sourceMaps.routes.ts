@@ -0,0 +1,43 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { sourceMapService } from '../services/sourceMapService';
+
+const router = Router();
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+
+// GET / - list source maps, optionally filtered by client_id and test_id
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const clientId = req.query.client_id ? parseInt(req.query.client_id as string, 10) : undefined;
+    const testId = req.query.test_id as string | undefined;
+    const sourceMaps = await sourceMapService.list(clientId, testId);
+    res.json(sourceMaps);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST / - upload a source map for a client's test
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sourceMapId = await sourceMapService.upload(req.body);
+    res.status(201).json({ source_map_id: sourceMapId, message: 'Source map uploaded successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /:id - delete source map
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sourceMapId = parseInt(req.params.id, 10);
+    await sourceMapService.delete(sourceMapId);
+    res.json({ message: 'Source map deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
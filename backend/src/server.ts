@@ -1,10 +1,12 @@
 import express, { Application } from 'express';
+import path from 'path';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { config } from './config/env';
 import { testConnection } from './config/database';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { startMonitoringCron } from './jobs/monitoringCron';
+import { browserPool } from './services/browserPool';
 import { logger } from './utils/logger';
 
 // Import routes
@@ -15,15 +17,23 @@ import browsersRoutes from './routes/browsers.routes';
 import failuresRoutes from './routes/failures.routes';
 import monitoringRoutes from './routes/monitoring.routes';
 import analyticsRoutes from './routes/analytics.routes';
+import ingestRoutes from './routes/ingest.routes';
+import sourceMapsRoutes from './routes/sourceMaps.routes';
 
 const app: Application = express();
 
+// Public real-user error ingestion - mounted before the admin CORS policy and
+// rate limiter since it accepts reports from client sites and limits per site key
+app.use('/api/ingest', ingestRoutes);
+
 // Middleware
 app.use(cors({
   origin: config.corsOrigin,
   credentials: true,
 }));
 
+// Source maps are often larger than the default body limit
+app.use('/api/source-maps', express.json({ limit: config.sourceMapMaxSize }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -36,8 +46,16 @@ const limiter = rateLimit({
 
 app.use('/api/', limiter);
 
-// Serve screenshots statically
-app.use('/screenshots', express.static(config.screenshotDir));
+// Serve screenshots statically. HAR files, traces and videos share the directory;
+// HAR files and traces hold cookies and headers, so all of them are only served
+// through the authenticated API
+app.use('/screenshots', (req, res, next) => {
+  if (path.extname(req.path).toLowerCase() !== '.png') {
+    res.status(404).end();
+    return;
+  }
+  next();
+}, express.static(config.screenshotDir));
 
 // Routes
 app.use('/api/auth', authRoutes);
@@ -47,6 +65,7 @@ app.use('/api/browsers', browsersRoutes);
 app.use('/api/failures', failuresRoutes);
 app.use('/api/monitoring', monitoringRoutes);
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/source-maps', sourceMapsRoutes);
 
 // Health check
 app.get('/health', (_req, res) => {
@@ -54,6 +73,7 @@ app.get('/health', (_req, res) => {
     status: 'ok',
     timestamp: new Date().toISOString(),
     environment: config.nodeEnv,
+    browsers: browserPool.getStatus(),
   });
 });
 
@@ -89,16 +109,17 @@ async function startServer() {
   }
 }
 
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  process.exit(0);
-});
+// Graceful shutdown - pooled browser processes are closed before exiting
+function shutdown(signal: string): void {
+  logger.info(`${signal} received, shutting down gracefully`);
+  browserPool
+    .shutdown()
+    .catch(error => logger.error('Browser pool shutdown failed:', error))
+    .finally(() => process.exit(0));
+}
 
-process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  process.exit(0);
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 startServer();
 
@@ -1,5 +1,13 @@
 import { query, queryOne } from '../config/database';
-import { OverviewStats, TrendData, GroupedCount } from '../types';
+import {
+  OverviewStats,
+  TrendData,
+  GroupedCount,
+  VariantErrorRate,
+  VariantVitalSummary,
+  WebVitalMetric,
+  ReportSource,
+} from '../types';
 
 export class AnalyticsService {
   async getOverviewStats(): Promise<OverviewStats> {
@@ -137,6 +145,142 @@ export class AnalyticsService {
     return await query<GroupedCount>(sql, [days, limit]);
   }
 
+  /**
+   * Exposures and failures per test variant, so failure counts can be compared
+   * as error rates. Only variants with recorded exposures are included.
+   */
+  async getErrorRatesByVariant(
+    days: number = 30,
+    source?: ReportSource,
+    clientId?: number
+  ): Promise<VariantErrorRate[]> {
+    const exposureConditions = ['exposure_date >= DATE_SUB(CURDATE(), INTERVAL ? DAY)'];
+    const failureConditions = ['detected_at >= DATE_SUB(NOW(), INTERVAL ? DAY)'];
+    const exposureParams: any[] = [days];
+    const failureParams: any[] = [days];
+
+    if (source) {
+      exposureConditions.push('source = ?');
+      failureConditions.push('source = ?');
+      exposureParams.push(source);
+      failureParams.push(source);
+    }
+
+    if (clientId) {
+      exposureConditions.push('client_id = ?');
+      failureConditions.push('client_id = ?');
+      exposureParams.push(clientId);
+      failureParams.push(clientId);
+    }
+
+    const sql = `
+      SELECT
+        e.test_id,
+        e.variant,
+        e.exposures,
+        COALESCE(f.failures, 0) as failures
+      FROM (
+        SELECT test_id, variant, SUM(exposure_count) as exposures
+        FROM variant_exposures
+        WHERE ${exposureConditions.join(' AND ')}
+        GROUP BY test_id, variant
+      ) e
+      LEFT JOIN (
+        SELECT test_id, variant, SUM(occurrence_count) as failures
+        FROM detected_failures
+        WHERE ${failureConditions.join(' AND ')}
+        GROUP BY test_id, variant
+      ) f ON e.test_id = f.test_id AND e.variant = f.variant
+      ORDER BY e.test_id ASC, e.variant ASC
+    `;
+
+    const results = await query<{ test_id: string; variant: string; exposures: number; failures: number }>(
+      sql,
+      [...exposureParams, ...failureParams]
+    );
+
+    return results.map((r) => {
+      const exposures = Number(r.exposures);
+      const failures = Number(r.failures);
+      return {
+        test_id: r.test_id,
+        variant: r.variant,
+        exposures,
+        failures,
+        error_rate: exposures > 0 ? failures / exposures : 0,
+      };
+    });
+  }
+
+  /**
+   * Core Web Vitals per test variant and metric. p75 (the figure Core Web Vitals
+   * are assessed on) is the smallest sample with at least 75% of samples at or below it.
+   */
+  async getVitalsByVariant(
+    days: number = 30,
+    source?: ReportSource,
+    clientId?: number,
+    testId?: string
+  ): Promise<VariantVitalSummary[]> {
+    const conditions = ['recorded_at >= DATE_SUB(NOW(), INTERVAL ? DAY)'];
+    const params: any[] = [days];
+
+    if (source) {
+      conditions.push('source = ?');
+      params.push(source);
+    }
+
+    if (clientId) {
+      conditions.push('client_id = ?');
+      params.push(clientId);
+    }
+
+    if (testId) {
+      conditions.push('test_id = ?');
+      params.push(testId);
+    }
+
+    const sql = `
+      SELECT
+        test_id,
+        variant,
+        metric,
+        COUNT(*) as samples,
+        MIN(CASE WHEN pct >= 0.75 THEN value END) as p75,
+        AVG(value) as average
+      FROM (
+        SELECT
+          test_id,
+          variant,
+          metric,
+          value,
+          CUME_DIST() OVER (PARTITION BY test_id, variant, metric ORDER BY value) as pct
+        FROM web_vitals
+        WHERE ${conditions.join(' AND ')}
+      ) v
+      GROUP BY test_id, variant, metric
+      ORDER BY test_id ASC, variant ASC, metric ASC
+    `;
+
+    const results = await query<{
+      test_id: string;
+      variant: string;
+      metric: WebVitalMetric;
+      samples: number;
+      p75: string;
+      average: string;
+    }>(sql, params);
+
+    return results.map((r) => ({
+      test_id: r.test_id,
+      variant: r.variant,
+      metric: r.metric,
+      samples: Number(r.samples),
+      p75: Number(r.p75),
+      average: Number(r.average),
+    }));
+  }
+
   async getClientStats(clientId: number, days: number = 30): Promise<{
     totalUrls: number;
     activeUrls: number;
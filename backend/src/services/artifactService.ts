@@ -0,0 +1,65 @@
+import fs from 'fs';
+import path from 'path';
+import { query, queryOne, insert } from '../config/database';
+import { Artifact, ArtifactKind, CheckArtifact } from '../types';
+import { AppError } from '../middleware/errorHandler';
+
+const ARTIFACT_LABELS: Record<ArtifactKind, string> = {
+  screenshot: 'Screenshot',
+  har: 'HAR file',
+  trace: 'Trace',
+  video: 'Video',
+};
+
+export class ArtifactService {
+  /**
+   * Link a check's artifacts to it and, when it recorded one, to a failure
+   */
+  async record(checkId: number, failureId: number | null, artifacts: CheckArtifact[]): Promise<void> {
+    for (const artifact of artifacts) {
+      await insert(
+        'INSERT INTO artifacts (check_id, failure_id, kind, file_path) VALUES (?, ?, ?, ?)',
+        [checkId, failureId, artifact.kind, artifact.path]
+      );
+    }
+  }
+
+  async listForFailure(failureId: number): Promise<Pick<Artifact, 'artifact_id' | 'kind' | 'captured_at'>[]> {
+    return await query(
+      'SELECT artifact_id, kind, captured_at FROM artifacts WHERE failure_id = ? ORDER BY artifact_id ASC',
+      [failureId]
+    );
+  }
+
+  /**
+   * File of a failure's artifact, if it was kept and is still on disk
+   */
+  async getFailureArtifactPath(failureId: number, kind: ArtifactKind): Promise<string> {
+    const result = await queryOne<{ file_path: string }>(
+      'SELECT file_path FROM artifacts WHERE failure_id = ? AND kind = ? LIMIT 1',
+      [failureId, kind]
+    );
+    return this.existingPath(result?.file_path, kind);
+  }
+
+  /**
+   * File of a check's artifact, including checks that recorded no failure
+   */
+  async getCheckArtifactPath(checkId: number, kind: ArtifactKind): Promise<string> {
+    const result = await queryOne<{ file_path: string }>(
+      'SELECT file_path FROM artifacts WHERE check_id = ? AND kind = ? LIMIT 1',
+      [checkId, kind]
+    );
+    return this.existingPath(result?.file_path, kind);
+  }
+
+  // Stored paths are relative when SCREENSHOT_DIR is, and res.sendFile needs an absolute one
+  private existingPath(filePath: string | undefined, kind: ArtifactKind): string {
+    if (!filePath || !fs.existsSync(filePath)) {
+      throw new AppError(`${ARTIFACT_LABELS[kind]} not found`, 404);
+    }
+    return path.resolve(filePath);
+  }
+}
+
+export const artifactService = new ArtifactService();
@@ -1,16 +1,57 @@
-import { chromium, firefox, webkit, Browser, BrowserContext, Page } from 'playwright';
+import { BrowserContext, Page, Request, Video } from 'playwright';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import {
   BrowserConfiguration,
   ABTestErrorCookie,
   ABTestErrorCookieCompact,
   BrowserCheckResult,
+  StackFrame,
+  VariantExposure,
+  VariantVital,
+  ForcedVariant,
+  JourneyStep,
+  JourneyStepTiming,
+  CapturedConsoleMessage,
+  CapturedNetworkFailure,
+  CheckArtifact,
   ERROR_TYPE_CODES,
   BROWSER_CODES,
 } from '../types';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
+import { exposureService } from './exposureService';
+import { browserPool } from './browserPool';
+import { vitalService } from './vitalService';
+import { scrubText, CompiledScrubRule } from '../utils/scrubber';
+import { isEnvelope, unwrapEnvelope } from '../utils/cookieSchema';
+import { isValidEpochSeconds } from '../utils/validators';
+
+// Per-client settings applied to what a check finds
+export interface CheckUrlOptions {
+  scrubRules?: CompiledScrubRule[];     // custom PII rules, after the built-in detectors
+  errorTypes?: Record<string, string>;  // error type code map (default: built-in codes)
+  forcedVariant?: ForcedVariant;        // variant to force instead of the page's random assignment
+  journeySteps?: JourneyStep[];         // run after the page loads, before errors are read
+}
+
+// Cancelled requests (navigation away, page closing) rather than breakages,
+// as reported by Chromium, Firefox and WebKit
+const ABORTED_REQUEST_ERRORS = ['net::ERR_ABORTED', 'NS_BINDING_ABORTED', 'cancelled'];
+
+// Where a check's HAR file, trace and video go
+interface ArtifactPaths {
+  har: string;
+  trace: string;
+  video: string;
+}
+
+// Outcome of a URL's journey steps
+interface JourneyResult {
+  timings: JourneyStepTiming[];
+  failedStep: number | null;  // 1-based; later steps are not run
+}
 
 export class BrowserCheckService {
   /**
@@ -27,46 +68,193 @@ export class BrowserCheckService {
   /**
    * Check if cookie data is in compact format
    */
-  private isCompactFormat(data: any): data is ABTestErrorCookieCompact {
+  isCompactFormat(data: any): data is ABTestErrorCookieCompact {
     return data && typeof data.t === 'string' && typeof data.ts === 'number';
   }
 
   /**
-   * Decode compact cookie format to full format
+   * Decode compact cookie format to full format. Codes missing from the
+   * error type map (built-in plus the client's custom codes) are kept as-is.
    */
-  private decodeCompactCookie(compact: ABTestErrorCookieCompact): ABTestErrorCookie {
+  decodeCompactCookie(
+    compact: ABTestErrorCookieCompact,
+    errorTypes: Record<string, string> = ERROR_TYPE_CODES
+  ): ABTestErrorCookie {
     return {
       test_id: compact.t,
       variant: compact.v,
-      error_type: ERROR_TYPE_CODES[compact.e] || compact.e,
+      error_type: errorTypes[compact.e] || compact.e,
       error_message: compact.m,
       browser: BROWSER_CODES[compact.b] || compact.b,
       timestamp: new Date(compact.ts * 1000).toISOString(),
+      stack_trace: typeof compact.s === 'string' ? this.decodeStackTrace(compact.s) : undefined,
+      occurrences: typeof compact.c === 'number' && Number.isInteger(compact.c) && compact.c > 0 ? compact.c : 1,
     };
   }
 
   /**
-   * Parse cookie value - supports both compact and full formats
+   * Decode the compacted stack ("fn@file:line:col|...") into frames.
+   * Malformed frames are skipped.
    */
-  private parseCookieValue(cookieValue: string): ABTestErrorCookie | null {
-    try {
-      const decoded = decodeURIComponent(cookieValue);
-      const data = JSON.parse(decoded);
+  private decodeStackTrace(compactStack: string): StackFrame[] {
+    const frames: StackFrame[] = [];
+
+    for (const part of compactStack.split('|')) {
+      // The SDK strips '@' from function names, so the first '@' ends the name
+      const at = part.indexOf('@');
+      const match = at >= 0 ? /^(.+):(\d+):(\d+)$/.exec(part.slice(at + 1)) : null;
+      if (!match) continue;
+
+      frames.push({
+        function_name: part.slice(0, at) || null,
+        file: match[1],
+        line: parseInt(match[2], 10),
+        column: parseInt(match[3], 10),
+      });
+    }
 
-      // Check if compact format and decode
-      if (this.isCompactFormat(data)) {
-        logger.debug('Detected compact cookie format, decoding...');
-        return this.decodeCompactCookie(data);
+    return frames;
+  }
+
+  /**
+   * Parse an error payload from the cookie (URI-encoded) or a storage channel -
+   * supports versioned, compact and full formats. Current SDKs write a checksummed
+   * envelope of compact entries; older versions write a bare list or a single
+   * object, whose format is detected per entry.
+   */
+  private parseErrorPayload(
+    payload: string,
+    errorTypes: Record<string, string>,
+    uriEncoded: boolean
+  ): ABTestErrorCookie[] | null {
+    try {
+      const data = JSON.parse(uriEncoded ? decodeURIComponent(payload) : payload);
+
+      if (isEnvelope(data)) {
+        const entries = unwrapEnvelope(data);
+        // Entries with an unusable timestamp are dropped rather than failing the whole channel
+        return entries
+          ? entries
+              .filter(entry => isValidEpochSeconds((entry as ABTestErrorCookieCompact).ts))
+              .map(entry => this.decodeCompactCookie(entry as ABTestErrorCookieCompact, errorTypes))
+          : null;
       }
 
-      // Full format - return as-is
-      return data as ABTestErrorCookie;
+      const entries: any[] = Array.isArray(data) ? data : [data];
+
+      return entries
+        .filter(entry => !this.isCompactFormat(entry) || isValidEpochSeconds(entry.ts))
+        .map(entry => {
+          // Check if compact format and decode
+          if (this.isCompactFormat(entry)) {
+            logger.debug('Detected compact cookie format, decoding...');
+            return this.decodeCompactCookie(entry, errorTypes);
+          }
+
+          // Full format - return as-is
+          return entry as ABTestErrorCookie;
+        });
     } catch (error) {
-      logger.error('Failed to parse cookie value:', error);
+      logger.error('Failed to parse error payload:', error);
       return null;
     }
   }
 
+  /**
+   * Merge the errors found in each channel, dropping the copies the SDK wrote to several
+   */
+  private mergeErrors(channels: ABTestErrorCookie[][]): ABTestErrorCookie[] {
+    const seen = new Set<string>();
+
+    return channels.flat().filter(entry => {
+      const key = JSON.stringify([
+        entry.test_id,
+        entry.variant,
+        entry.error_type,
+        entry.error_message,
+        entry.timestamp,
+      ]);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Raw error cookie value. Payloads too large for one cookie are split by the
+   * SDK across `<cookie name>_0..n`, which are joined back in order here.
+   */
+  private readErrorCookie(cookies: { name: string; value: string }[]): string | null {
+    const single = cookies.find(c => c.name === config.cookieName);
+    if (single) {
+      return single.value;
+    }
+
+    const chunks: string[] = [];
+    for (let index = 0; ; index++) {
+      const chunk = cookies.find(c => c.name === `${config.cookieName}_${index}`);
+      if (!chunk) break;
+      chunks.push(chunk.value);
+    }
+    return chunks.length > 0 ? chunks.join('') : null;
+  }
+
+  /**
+   * Raw error payloads the SDK wrote to localStorage, sessionStorage or
+   * window.__AB_ERRORS__ (its `channels` option) for sites that strip cookies.
+   * Channels that cannot be read are skipped.
+   */
+  private async readStorageChannels(page: Page): Promise<string[]> {
+    try {
+      const values = await page.evaluate((key: string) => {
+        const scope = globalThis as any;
+        const readStorage = (name: string): string | null => {
+          try {
+            return scope[name]?.getItem(key) ?? null;
+          } catch {
+            return null; // storage blocked for this origin
+          }
+        };
+        const windowErrors = scope.__AB_ERRORS__;
+
+        return [
+          readStorage('localStorage'),
+          readStorage('sessionStorage'),
+          Array.isArray(windowErrors) ? JSON.stringify(windowErrors) : null,
+        ];
+      }, config.cookieName);
+
+      return values.filter((value): value is string => typeof value === 'string' && value.length > 0);
+    } catch (error) {
+      logger.warn('Failed to read error storage channels:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Parse the SDK's exposure counter cookie; malformed values yield no exposures
+   */
+  private parseExposureCookie(cookieValue: string): VariantExposure[] {
+    try {
+      return exposureService.decodeCompact(JSON.parse(decodeURIComponent(cookieValue)));
+    } catch (error) {
+      logger.error('Failed to parse exposure cookie:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Parse the SDK's Core Web Vitals cookie; malformed values yield no samples
+   */
+  private parseVitalCookie(cookieValue: string): VariantVital[] {
+    try {
+      return vitalService.decodeCompact(JSON.parse(decodeURIComponent(cookieValue)));
+    } catch (error) {
+      logger.error('Failed to parse web vitals cookie:', error);
+      return [];
+    }
+  }
+
   /**
    * Delay helper for retry logic
    */
@@ -89,6 +277,7 @@ export class BrowserCheckService {
       'Navigation failed',
       'Target closed',
       'Browser closed',
+      'has been closed',  // pooled browser crashed mid-check; the retry gets a new one
     ];
     const errorMessage = error?.message || '';
     return retryablePatterns.some(pattern => errorMessage.includes(pattern));
@@ -124,32 +313,10 @@ export class BrowserCheckService {
     return unreachablePatterns.some(pattern => errorMessage.includes(pattern));
   }
 
-  private async launchBrowser(browserConfig: BrowserConfiguration): Promise<Browser> {
-    const options = {
-      headless: true,
-    };
-
-    const browserName = browserConfig.browser_name.toLowerCase();
-
-    // Launch appropriate browser based on config
-    if (browserName.includes('firefox')) {
-      return await firefox.launch(options);
-    } else if (browserName.includes('safari') || browserName.includes('webkit')) {
-      return await webkit.launch(options);
-    } else if (browserName.includes('edge') || browserName.includes('chrome') || browserName.includes('chromium')) {
-      // Edge, Chrome, and Chromium all use the Chromium engine
-      return await chromium.launch(options);
-    } else {
-      // Default to Chromium for any other browser
-      logger.warn(`Unknown browser "${browserConfig.browser_name}", defaulting to Chromium`);
-      return await chromium.launch(options);
-    }
-  }
-
-  private async createContext(
-    browser: Browser,
-    browserConfig: BrowserConfiguration
-  ): Promise<BrowserContext> {
+  /**
+   * Fresh isolated context for a check, in the engine's pooled browser
+   */
+  private async createContext(browserConfig: BrowserConfiguration, harPath?: string): Promise<BrowserContext> {
     const contextOptions: any = {
       userAgent: browserConfig.user_agent || undefined,
       viewport: {
@@ -164,31 +331,55 @@ export class BrowserCheckService {
       contextOptions.hasTouch = true;
     }
 
-    return await browser.newContext(contextOptions);
+    // Written when the context closes; response bodies are left out to keep it small
+    if (harPath) {
+      contextOptions.recordHar = { path: harPath, content: 'omit' };
+    }
+
+    // Recorded under a generated name and moved to the check's artifact path if kept
+    if (browserConfig.record_video) {
+      contextOptions.recordVideo = { dir: config.screenshotDir };
+    }
+
+    const context = await browserPool.newContext(browserConfig, contextOptions);
+
+    // Runs before page scripts, so an SDK in consent mode starts out granted
+    if (config.crawlerGrantConsent) {
+      await context.addInitScript("window.__AB_CONSENT__ = 'granted';");
+    }
+
+    return context;
   }
 
   /**
-   * Check URL with retry logic for handling flaky network conditions
+   * Check URL with retry logic for handling flaky network conditions.
+   * Error messages are scrubbed with the built-in detectors and the client's scrub rules.
    */
   async checkUrl(
     url: string,
-    browserConfig: BrowserConfiguration
+    browserConfig: BrowserConfiguration,
+    options: CheckUrlOptions = {}
   ): Promise<BrowserCheckResult> {
     let lastError: any = null;
+    let lastResult: BrowserCheckResult | null = null;
 
     for (let attempt = 1; attempt <= config.maxRetries; attempt++) {
       try {
-        const result = await this.performSingleCheck(url, browserConfig);
+        const result = await this.performSingleCheck(url, browserConfig, options);
 
-        // If successful or non-retryable error, return immediately
-        if (result.success || !this.isRetryableError({ message: result.errorMessage })) {
+        // If successful or non-retryable error, return immediately. A failed journey
+        // step is not retried so its timings and any errors the page logged are kept.
+        if (result.success || result.failedStep || !this.isRetryableError({ message: result.errorMessage })) {
           return result;
         }
 
         // Retryable failure - log and potentially retry
         lastError = { message: result.errorMessage };
+        lastResult = result;
 
         if (attempt < config.maxRetries) {
+          // Only the last attempt's HAR and trace are kept
+          await this.discardArtifacts(result);
           logger.warn(`Check attempt ${attempt} failed for ${url}, retrying in ${config.retryDelayMs}ms...`, {
             browser: browserConfig.browser_name,
             error: result.errorMessage,
@@ -216,7 +407,26 @@ export class BrowserCheckService {
       browser: browserConfig.browser_name,
       lastError: lastError?.message,
     });
-    return this.createFailureResult(lastError, Date.now());
+    const failure = this.createFailureResult(lastError, Date.now());
+    if (!lastResult) return failure;
+
+    // Keep what the last attempt captured
+    return {
+      ...failure,
+      stepTimings: lastResult.stepTimings,
+      failedStep: lastResult.failedStep,
+      consoleMessages: lastResult.consoleMessages,
+      networkFailures: lastResult.networkFailures,
+      artifacts: lastResult.artifacts,
+    };
+  }
+
+  private async discardArtifacts(result: BrowserCheckResult): Promise<void> {
+    for (const artifact of result.artifacts ?? []) {
+      await fs.promises.rm(artifact.path, { force: true }).catch(error => {
+        logger.error('Failed to remove check artifact:', error);
+      });
+    }
   }
 
   /**
@@ -281,101 +491,388 @@ export class BrowserCheckService {
     return `Site unreachable: ${this.truncateErrorMessage(errorMessage)}`;
   }
 
+  /**
+   * Set up the context so the page serves the forced variant, returning the URL to visit
+   */
+  private async applyForcedVariant(
+    context: BrowserContext,
+    url: string,
+    { method, key, variant }: ForcedVariant
+  ): Promise<string> {
+    const target = new URL(url);
+
+    if (method === 'query') {
+      target.searchParams.set(key, variant);
+      return target.toString();
+    }
+
+    if (method === 'cookie') {
+      await context.addCookies([{ name: key, value: variant, domain: target.hostname, path: '/' }]);
+    } else {
+      // Set before page scripts run, on the checked origin only
+      await context.addInitScript(
+        `if (location.origin === ${JSON.stringify(target.origin)}) {` +
+          ` try { localStorage.setItem(${JSON.stringify(key)}, ${JSON.stringify(variant)}); } catch (e) {} }`
+      );
+    }
+    return url;
+  }
+
+  /**
+   * Collect console errors and uncaught exceptions as the page runs, whether or
+   * not the SDK loaded. Repeats of a message are counted rather than stored again.
+   * Returns a reader for what has been captured so far, scrubbed of PII.
+   */
+  private captureConsole(page: Page, scrubRules: CompiledScrubRule[]): () => CapturedConsoleMessage[] {
+    const captured = new Map<string, CapturedConsoleMessage>();
+
+    const add = (entry: Omit<CapturedConsoleMessage, 'occurrence_count'>) => {
+      const key = [entry.kind, entry.message, entry.source_url, entry.line_number, entry.column_number].join('|');
+      const existing = captured.get(key);
+      if (existing) {
+        existing.occurrence_count++;
+      } else if (captured.size < config.consoleMaxMessages) {
+        captured.set(key, { ...entry, occurrence_count: 1 });
+      }
+    };
+
+    page.on('console', message => {
+      if (message.type() !== 'error') return;
+      const { url, lineNumber, columnNumber } = message.location();
+      add({
+        kind: 'console',
+        message: message.text(),
+        source_url: url ? url.slice(0, 500) : null,
+        // Playwright positions are 0-based; stack traces are 1-based
+        line_number: url ? lineNumber + 1 : null,
+        column_number: url ? columnNumber + 1 : null,
+      });
+    });
+
+    page.on('pageerror', error => {
+      // Top frame of the stack, in V8 ("at fn (url:1:2)") or Firefox/WebKit ("fn@url:1:2") form
+      const frame = /(https?:\/\/[^\s()@]+):(\d+):(\d+)/.exec(error.stack || '');
+      add({
+        kind: 'pageerror',
+        message: error.name ? `${error.name}: ${error.message}` : error.message,
+        source_url: frame ? frame[1].slice(0, 500) : null,
+        line_number: frame ? parseInt(frame[2], 10) : null,
+        column_number: frame ? parseInt(frame[3], 10) : null,
+      });
+    });
+
+    return () =>
+      Array.from(captured.values()).map(entry => ({
+        ...entry,
+        message: this.truncateErrorMessage(scrubText(entry.message, config.scrubDetectors, scrubRules)),
+      }));
+  }
+
+  /**
+   * Collect requests that fail outright or get a 4xx/5xx response, with how long
+   * they took. Repeats of the same request and outcome are counted. Returns a
+   * reader for what has been captured so far, with secrets scrubbed from URLs.
+   */
+  private captureNetwork(page: Page, scrubRules: CompiledScrubRule[]): () => CapturedNetworkFailure[] {
+    const startedAt = new WeakMap<Request, number>();
+    const captured = new Map<string, CapturedNetworkFailure>();
+
+    const add = (request: Request, status: number | null, failureText: string | null) => {
+      if (request.url().startsWith('data:')) return;
+
+      const started = startedAt.get(request);
+      const key = [request.method(), request.url(), status, failureText].join('|');
+      const existing = captured.get(key);
+      if (existing) {
+        existing.occurrence_count++;
+      } else if (captured.size < config.networkMaxFailures) {
+        captured.set(key, {
+          url: request.url(),
+          method: request.method(),
+          status,
+          failure_text: failureText ? failureText.slice(0, 255) : null,
+          resource_type: request.resourceType(),
+          duration_ms: started !== undefined ? Date.now() - started : null,
+          occurrence_count: 1,
+        });
+      }
+    };
+
+    page.on('request', request => startedAt.set(request, Date.now()));
+
+    page.on('response', response => {
+      if (response.status() >= 400) {
+        add(response.request(), response.status(), response.statusText() || null);
+      }
+    });
+
+    page.on('requestfailed', request => {
+      const errorText = request.failure()?.errorText ?? 'Request failed';
+      if (!ABORTED_REQUEST_ERRORS.includes(errorText)) {
+        add(request, null, errorText);
+      }
+    });
+
+    return () =>
+      Array.from(captured.values()).map(entry => ({
+        ...entry,
+        url: scrubText(entry.url, config.scrubDetectors, scrubRules).slice(0, 2000),
+      }));
+  }
+
+  /**
+   * Run a URL's journey steps in order, stopping at the first step that fails
+   */
+  private async runJourney(page: Page, steps: JourneyStep[]): Promise<JourneyResult> {
+    const timings: JourneyStepTiming[] = [];
+
+    for (const [index, step] of steps.entries()) {
+      const started = Date.now();
+      try {
+        await this.runJourneyStep(page, step);
+        timings.push({ step: index + 1, action: step.action, duration_ms: Date.now() - started });
+      } catch (error: any) {
+        timings.push({
+          step: index + 1,
+          action: step.action,
+          duration_ms: Date.now() - started,
+          error: this.truncateErrorMessage(error.message || 'Unknown error'),
+        });
+        return { timings, failedStep: index + 1 };
+      }
+    }
+
+    // Give work started by the last step a chance to finish and log errors
+    await page.waitForLoadState('networkidle', { timeout: config.journeyStepTimeout }).catch(() => undefined);
+    return { timings, failedStep: null };
+  }
+
+  private async runJourneyStep(page: Page, step: JourneyStep): Promise<void> {
+    const timeout = step.timeout ?? config.journeyStepTimeout;
+    const selector = step.selector ?? '';
+
+    switch (step.action) {
+      case 'navigate':
+        // Relative URLs resolve against the page the journey is on
+        await page.goto(new URL(step.url ?? '', page.url()).toString(), {
+          waitUntil: 'networkidle',
+          timeout: step.timeout ?? config.browserTimeout,
+        });
+        break;
+      case 'click':
+        await page.click(selector, { timeout });
+        break;
+      case 'fill':
+        await page.fill(selector, step.value ?? '', { timeout });
+        break;
+      case 'hover':
+        await page.hover(selector, { timeout });
+        break;
+      case 'scroll':
+        if (step.selector) {
+          await page.locator(step.selector).first().scrollIntoViewIfNeeded({ timeout });
+        } else {
+          await page.evaluate('window.scrollTo(0, document.body.scrollHeight)');
+        }
+        break;
+      case 'waitForSelector':
+        await page.waitForSelector(selector, { timeout });
+        break;
+      case 'waitForTimeout':
+        await page.waitForTimeout(timeout);
+        break;
+    }
+  }
+
+  /**
+   * Attach journey timings to a check result. A failed step fails the check,
+   * keeping any errors the page logged before it.
+   */
+  private withJourney(result: BrowserCheckResult, journey: JourneyResult | null): BrowserCheckResult {
+    if (!journey) return result;
+
+    const withTimings = { ...result, stepTimings: journey.timings, failedStep: journey.failedStep };
+    if (!journey.failedStep) return withTimings;
+
+    const failed = journey.timings[journey.timings.length - 1];
+    return {
+      ...withTimings,
+      success: false,
+      checkStatus: 'error',
+      errorMessage: this.truncateErrorMessage(`Step ${failed.step} (${failed.action}) failed: ${failed.error}`),
+    };
+  }
+
   /**
    * Perform a single browser check (called by checkUrl with retry wrapper)
    */
   private async performSingleCheck(
     url: string,
-    browserConfig: BrowserConfiguration
+    browserConfig: BrowserConfiguration,
+    { scrubRules = [], errorTypes = ERROR_TYPE_CODES, forcedVariant, journeySteps = [] }: CheckUrlOptions
   ): Promise<BrowserCheckResult> {
-    let browser: Browser | null = null;
     let context: BrowserContext | null = null;
     let page: Page | null = null;
+    let readConsole = (): CapturedConsoleMessage[] => [];
+    let readNetwork = (): CapturedNetworkFailure[] => [];
     const startTime = Date.now();
 
+    // HAR, trace and video are recorded for every check but only kept for checks that need explaining
+    const artifactBase = this.artifactPath(url, browserConfig, '');
+    const artifactPaths: ArtifactPaths = {
+      har: `${artifactBase}.har`,
+      trace: `${artifactBase}-trace.zip`,
+      video: `${artifactBase}.webm`,
+    };
+    let video: Video | null = null;
+    let keepArtifacts = false;
+    const withArtifacts = (result: BrowserCheckResult): BrowserCheckResult => {
+      const needed = result.errorDetected || result.checkStatus === 'error' || result.checkStatus === 'timeout';
+      const artifacts: CheckArtifact[] = [];
+      if (config.recordCheckArtifacts && context) {
+        artifacts.push({ kind: 'har', path: artifactPaths.har }, { kind: 'trace', path: artifactPaths.trace });
+      }
+      if (video) {
+        artifacts.push({ kind: 'video', path: artifactPaths.video });
+      }
+      if (!needed || artifacts.length === 0) return result;
+
+      keepArtifacts = true;
+      return { ...result, artifacts };
+    };
+
     try {
-      // Launch browser
-      browser = await this.launchBrowser(browserConfig);
-      context = await this.createContext(browser, browserConfig);
+      // Isolated context in a pooled browser
+      context = await this.createContext(browserConfig, config.recordCheckArtifacts ? artifactPaths.har : undefined);
+      if (config.recordCheckArtifacts) {
+        await context.tracing.start({ screenshots: true, snapshots: true });
+      }
+      const targetUrl = forcedVariant ? await this.applyForcedVariant(context, url, forcedVariant) : url;
       page = await context.newPage();
+      video = page.video();
+      readConsole = this.captureConsole(page, scrubRules);
+      readNetwork = this.captureNetwork(page, scrubRules);
 
       // Navigate to URL with timeout
-      await page.goto(url, {
+      await page.goto(targetUrl, {
         waitUntil: 'networkidle',
         timeout: config.browserTimeout,
       });
 
       const pageLoadTimeMs = Date.now() - startTime;
 
+      // Interact with the page so variants that only run after user actions are exercised
+      const journey = journeySteps.length > 0 ? await this.runJourney(page, journeySteps) : null;
+      // Every result carries the journey timings, the console and network failures
+      // captured so far, and the HAR and trace when it needs explaining
+      const finish = (result: BrowserCheckResult): BrowserCheckResult =>
+        withArtifacts({
+          ...this.withJourney(result, journey),
+          consoleMessages: readConsole(),
+          networkFailures: readNetwork(),
+        });
+
       // Extract cookies
       const cookies = await context.cookies();
-      const errorCookie = cookies.find(c => c.name === config.cookieName);
+      const errorCookie = this.readErrorCookie(cookies);
+      const storedPayloads = await this.readStorageChannels(page);
+
+      // Exposure counters written by the SDK's logExposure()
+      const exposureCookie = cookies.find(c => c.name === `${config.cookieName}_exp`);
+      const exposures = exposureCookie ? this.parseExposureCookie(exposureCookie.value) : [];
+
+      // Core Web Vitals written by the SDK's vitals collector or logVital()
+      const vitalCookie = cookies.find(c => c.name === `${config.cookieName}_vit`);
+      const vitals = vitalCookie ? this.parseVitalCookie(vitalCookie.value) : [];
 
-      if (!errorCookie) {
-        // No error cookie found
-        return {
+      if (!errorCookie && storedPayloads.length === 0) {
+        // No errors in the cookie or any storage channel
+        return finish({
           success: true,
           pageLoadTimeMs,
           cookieFound: false,
           errorDetected: false,
           errorData: null,
+          exposures,
+          vitals,
           screenshotPath: null,
           checkStatus: 'success',
           errorMessage: null,
-        };
+        });
       }
 
-      // Parse error cookie (supports both compact and full formats)
-      let errorData = this.parseCookieValue(errorCookie.value);
+      // Parse the cookie and storage channels, then merge what could be read
+      const parsedChannels = [
+        ...(errorCookie ? [this.parseErrorPayload(errorCookie, errorTypes, true)] : []),
+        ...storedPayloads.map(payload => this.parseErrorPayload(payload, errorTypes, false)),
+      ].filter((channel): channel is ABTestErrorCookie[] => channel !== null);
 
-      if (!errorData) {
-        logger.error('Failed to parse error cookie:', { url });
-        return {
+      if (parsedChannels.length === 0) {
+        logger.error('Failed to parse error cookie or storage:', { url });
+        return finish({
           success: true,
           pageLoadTimeMs,
           cookieFound: true,
           errorDetected: false,
           errorData: null,
+          exposures,
+          vitals,
           screenshotPath: null,
           checkStatus: 'success',
           errorMessage: 'Invalid cookie format',
-        };
+        });
+      }
+
+      const parsedErrors = this.mergeErrors(parsedChannels);
+
+      // Validate error data structure, skipping malformed entries
+      const validErrors = parsedErrors.filter(entry => this.isValidErrorData(entry));
+
+      if (validErrors.length < parsedErrors.length) {
+        logger.warn('Invalid error data structure:', {
+          url,
+          invalidEntries: parsedErrors.length - validErrors.length,
+        });
       }
 
-      // Validate error data structure
-      if (!this.isValidErrorData(errorData)) {
-        logger.warn('Invalid error data structure:', { url, errorData });
-        return {
+      if (validErrors.length === 0) {
+        return finish({
           success: true,
           pageLoadTimeMs,
           cookieFound: true,
           errorDetected: false,
           errorData: null,
+          exposures,
+          vitals,
           screenshotPath: null,
           checkStatus: 'success',
           errorMessage: 'Invalid error data structure',
-        };
+        });
       }
 
-      // Truncate error message if too long
-      errorData = {
-        ...errorData,
-        error_message: this.truncateErrorMessage(errorData.error_message),
-      };
+      // Scrub PII, then truncate error messages if too long
+      const errorData = validErrors.map(entry => ({
+        ...entry,
+        error_message: this.truncateErrorMessage(
+          scrubText(entry.error_message, config.scrubDetectors, scrubRules)
+        ),
+      }));
 
       // Error detected - capture screenshot
       const screenshotPath = await this.captureScreenshot(page, url, browserConfig);
 
-      return {
+      return finish({
         success: true,
         pageLoadTimeMs,
         cookieFound: true,
         errorDetected: true,
         errorData,
+        exposures,
+        vitals,
         screenshotPath,
         checkStatus: 'success',
         errorMessage: null,
-      };
+      });
     } catch (error: any) {
       const pageLoadTimeMs = Date.now() - startTime;
 
@@ -398,7 +895,7 @@ export class BrowserCheckService {
         checkStatus,
       });
 
-      return {
+      return withArtifacts({
         success: false,
         pageLoadTimeMs,
         cookieFound: false,
@@ -407,16 +904,45 @@ export class BrowserCheckService {
         screenshotPath: null,
         checkStatus,
         errorMessage,
-      };
+        consoleMessages: readConsole(),
+        networkFailures: readNetwork(),
+      });
     } finally {
-      // Cleanup
+      // Cleanup - closing the context returns the browser to the pool
+      let closed = false;
       try {
+        if (context && config.recordCheckArtifacts) {
+          await context.tracing.stop(keepArtifacts ? { path: artifactPaths.trace } : undefined).catch(error => {
+            logger.error('Failed to save trace:', error);
+          });
+        }
         if (page) await page.close();
-        if (context) await context.close();
-        if (browser) await browser.close();
+        if (context) await context.close();  // writes the HAR and video
+        closed = true;
       } catch (cleanupError) {
         logger.error('Browser cleanup error:', cleanupError);
       }
+
+      // Removed even when closing failed, so discarded HAR files don't pile up
+      if (config.recordCheckArtifacts && !keepArtifacts) {
+        await fs.promises.rm(artifactPaths.har, { force: true }).catch(error => {
+          logger.error('Failed to remove HAR file:', error);
+        });
+      }
+
+      // The raw recording is always deleted; it is copied to the artifact path first if kept.
+      // saveAs() and delete() wait for the page to close, so after a failed close the file is removed directly.
+      if (video) {
+        if (keepArtifacts && closed) {
+          await video.saveAs(artifactPaths.video).catch(error => {
+            logger.error('Failed to save video:', error);
+          });
+        }
+        await (closed ? video.delete() : video.path().then(rawPath => fs.promises.rm(rawPath, { force: true })))
+          .catch(error => {
+            logger.error('Failed to remove video:', error);
+          });
+      }
     }
   }
 
@@ -432,23 +958,30 @@ export class BrowserCheckService {
     );
   }
 
+  /**
+   * Path in the screenshot directory for a check's screenshot, HAR or trace.
+   * A random suffix keeps concurrent checks of the same URL apart.
+   */
+  private artifactPath(url: string, browserConfig: BrowserConfiguration, suffix: string): string {
+    // Ensure screenshot directory exists
+    if (!fs.existsSync(config.screenshotDir)) {
+      fs.mkdirSync(config.screenshotDir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+    const urlHash = Buffer.from(url).toString('base64').slice(0, 10).replace(/[/+=]/g, '');
+    const browserType = browserConfig.device_type;
+    const unique = crypto.randomBytes(3).toString('hex');
+    return path.join(config.screenshotDir, `failure_${urlHash}_${browserType}_${timestamp}_${unique}${suffix}`);
+  }
+
   private async captureScreenshot(
     page: Page,
     url: string,
     browserConfig: BrowserConfiguration
   ): Promise<string> {
     try {
-      // Ensure screenshot directory exists
-      if (!fs.existsSync(config.screenshotDir)) {
-        fs.mkdirSync(config.screenshotDir, { recursive: true });
-      }
-
-      // Generate filename
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-      const urlHash = Buffer.from(url).toString('base64').slice(0, 10).replace(/[/+=]/g, '');
-      const browserType = browserConfig.device_type;
-      const filename = `failure_${urlHash}_${browserType}_${timestamp}.png`;
-      const filepath = path.join(config.screenshotDir, filename);
+      const filepath = this.artifactPath(url, browserConfig, '.png');
 
       // Capture screenshot
       await page.screenshot({
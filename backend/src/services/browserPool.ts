@@ -0,0 +1,188 @@
+import { chromium, firefox, webkit, Browser, BrowserContext, BrowserContextOptions, BrowserType } from 'playwright';
+import { BrowserConfiguration } from '../types';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
+const ENGINES: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+interface PooledBrowser {
+  engine: BrowserEngine;
+  browser: Browser;
+  uses: number;      // contexts created so far
+  active: number;    // contexts still open
+  retiring: boolean; // closed once its last context closes
+  idleTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Keeps one warm browser process per engine. Each check gets a fresh, isolated
+ * BrowserContext; browsers are replaced after `browserPoolMaxUses` contexts or a
+ * crash, and closed after `browserPoolIdleMs` without checks.
+ */
+export class BrowserPool {
+  private browsers = new Map<BrowserEngine, PooledBrowser>();
+  private launching = new Map<BrowserEngine, Promise<PooledBrowser>>();
+  private shuttingDown = false;
+
+  /**
+   * Engine used for a browser configuration
+   */
+  engineFor(browserConfig: BrowserConfiguration): BrowserEngine {
+    const browserName = browserConfig.browser_name.toLowerCase();
+
+    if (browserName.includes('firefox')) {
+      return 'firefox';
+    } else if (browserName.includes('safari') || browserName.includes('webkit')) {
+      return 'webkit';
+    } else if (browserName.includes('edge') || browserName.includes('chrome') || browserName.includes('chromium')) {
+      // Edge, Chrome, and Chromium all use the Chromium engine
+      return 'chromium';
+    }
+
+    // Default to Chromium for any other browser
+    logger.warn(`Unknown browser "${browserConfig.browser_name}", defaulting to Chromium`);
+    return 'chromium';
+  }
+
+  /**
+   * Create an isolated context in the engine's pooled browser. Closing the
+   * context returns it to the pool.
+   */
+  async newContext(browserConfig: BrowserConfiguration, options: BrowserContextOptions): Promise<BrowserContext> {
+    if (this.shuttingDown) {
+      throw new Error('Browser pool is shutting down');
+    }
+
+    const pooled = await this.getBrowser(this.engineFor(browserConfig));
+    if (pooled.idleTimer) {
+      clearTimeout(pooled.idleTimer);
+      pooled.idleTimer = null;
+    }
+    pooled.uses++;
+    pooled.active++;
+
+    let context: BrowserContext;
+    try {
+      context = await pooled.browser.newContext(options);
+    } catch (error) {
+      // A browser that can't open contexts is replaced on the next check
+      this.retire(pooled);
+      this.release(pooled);
+      throw error;
+    }
+
+    context.on('close', () => this.release(pooled));
+
+    if (pooled.uses >= config.browserPoolMaxUses) {
+      this.retire(pooled);
+    }
+    return context;
+  }
+
+  /**
+   * Pooled browser for an engine, launching one if there is none or the
+   * current one is no longer connected
+   */
+  private async getBrowser(engine: BrowserEngine): Promise<PooledBrowser> {
+    const current = this.browsers.get(engine);
+    if (current && current.browser.isConnected()) {
+      return current;
+    }
+    if (current) {
+      logger.warn(`Pooled ${engine} browser is disconnected, relaunching`);
+      this.retire(current);
+    }
+
+    // Concurrent checks share a single launch
+    let launch = this.launching.get(engine);
+    if (!launch) {
+      launch = this.launch(engine).finally(() => this.launching.delete(engine));
+      this.launching.set(engine, launch);
+    }
+    return await launch;
+  }
+
+  private async launch(engine: BrowserEngine): Promise<PooledBrowser> {
+    const browser = await ENGINES[engine].launch({ headless: true });
+    const pooled: PooledBrowser = { engine, browser, uses: 0, active: 0, retiring: false, idleTimer: null };
+
+    browser.on('disconnected', () => {
+      if (this.browsers.get(engine) === pooled) {
+        logger.warn(`Pooled ${engine} browser disconnected`);
+        this.browsers.delete(engine);
+      }
+    });
+
+    this.browsers.set(engine, pooled);
+    logger.debug(`Launched pooled ${engine} browser`);
+    return pooled;
+  }
+
+  private release(pooled: PooledBrowser): void {
+    pooled.active = Math.max(0, pooled.active - 1);
+    if (pooled.active > 0) return;
+
+    if (pooled.retiring) {
+      this.close(pooled);
+    } else if (!pooled.idleTimer) {
+      pooled.idleTimer = setTimeout(() => this.retire(pooled), config.browserPoolIdleMs);
+    }
+  }
+
+  /**
+   * Stop handing out a browser; it is closed once its open contexts are done
+   */
+  private retire(pooled: PooledBrowser): void {
+    if (this.browsers.get(pooled.engine) === pooled) {
+      this.browsers.delete(pooled.engine);
+    }
+    pooled.retiring = true;
+    if (pooled.active === 0) {
+      this.close(pooled);
+    }
+  }
+
+  private close(pooled: PooledBrowser): void {
+    if (pooled.idleTimer) {
+      clearTimeout(pooled.idleTimer);
+      pooled.idleTimer = null;
+    }
+    pooled.browser.close().catch(error => {
+      logger.error(`Failed to close pooled ${pooled.engine} browser:`, error);
+    });
+  }
+
+  /**
+   * Health of the pooled browsers, e.g. for the health check endpoint
+   */
+  getStatus(): { engine: BrowserEngine; connected: boolean; uses: number; active: number }[] {
+    return Array.from(this.browsers.values()).map(pooled => ({
+      engine: pooled.engine,
+      connected: pooled.browser.isConnected(),
+      uses: pooled.uses,
+      active: pooled.active,
+    }));
+  }
+
+  /**
+   * Close every pooled browser. New contexts are refused afterwards.
+   */
+  async shutdown(): Promise<void> {
+    this.shuttingDown = true;
+    await Promise.allSettled(this.launching.values());
+
+    const pooled = Array.from(this.browsers.values());
+    this.browsers.clear();
+    await Promise.allSettled(
+      pooled.map(async entry => {
+        if (entry.idleTimer) clearTimeout(entry.idleTimer);
+        await entry.browser.close();
+      })
+    );
+    logger.info(`Browser pool shut down (${pooled.length} browser(s) closed)`);
+  }
+}
+
+export const browserPool = new BrowserPool();
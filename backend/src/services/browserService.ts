@@ -26,6 +26,7 @@ export class BrowserService {
       viewport_width,
       viewport_height,
       user_agent,
+      record_video,
       is_active,
     } = data;
 
@@ -57,8 +58,8 @@ export class BrowserService {
     const sql = `
       INSERT INTO browser_configurations
       (browser_name, browser_version, device_type, operating_system,
-       viewport_width, viewport_height, user_agent, is_active)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       viewport_width, viewport_height, user_agent, record_video, is_active)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const configId = await insert(sql, [
@@ -69,6 +70,7 @@ export class BrowserService {
       viewport_width || null,
       viewport_height || null,
       user_agent || null,
+      record_video ?? false,
       is_active !== undefined ? is_active : true,
     ]);
 
@@ -146,6 +148,10 @@ export class BrowserService {
       updates.push('user_agent = ?');
       values.push(data.user_agent || null);
     }
+    if (data.record_video !== undefined) {
+      updates.push('record_video = ?');
+      values.push(data.record_video);
+    }
     if (data.is_active !== undefined) {
       updates.push('is_active = ?');
       values.push(data.is_active);
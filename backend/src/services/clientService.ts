@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import { query, queryOne, insert, execute } from '../config/database';
 import {
   Client,
@@ -9,6 +10,13 @@ import { AppError } from '../middleware/errorHandler';
 import { isValidEmail, sanitizeString } from '../utils/validators';
 
 export class ClientService {
+  /**
+   * Generate a public site key used by the SDK transport to report real-user errors
+   */
+  private generateSiteKey(): string {
+    return crypto.randomBytes(16).toString('hex');
+  }
+
   async list(): Promise<ClientWithStats[]> {
     const sql = `
       SELECT
@@ -52,8 +60,8 @@ export class ClientService {
     }
 
     const sql = `
-      INSERT INTO clients (client_name, company_name, email, contact_person, notes)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT INTO clients (client_name, company_name, email, contact_person, site_key, notes)
+      VALUES (?, ?, ?, ?, ?, ?)
     `;
 
     const clientId = await insert(sql, [
@@ -61,6 +69,7 @@ export class ClientService {
       company_name ? sanitizeString(company_name) : null,
       email ? sanitizeString(email) : null,
       contact_person ? sanitizeString(contact_person) : null,
+      this.generateSiteKey(),
       notes || null,
     ]);
 
@@ -176,6 +185,16 @@ export class ClientService {
 
     return newStatus;
   }
+
+  async regenerateSiteKey(clientId: number): Promise<string> {
+    // Check if client exists
+    await this.get(clientId);
+
+    const siteKey = this.generateSiteKey();
+    await execute('UPDATE clients SET site_key = ? WHERE client_id = ?', [siteKey, clientId]);
+
+    return siteKey;
+  }
 }
 
 export const clientService = new ClientService();
@@ -0,0 +1,61 @@
+import { query, execute } from '../config/database';
+import { CapturedConsoleMessage, ConsoleMessage } from '../types';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export class ConsoleService {
+  private failurePatterns: RegExp[];
+
+  constructor(patterns: string[] = config.consoleFailurePatterns) {
+    this.failurePatterns = patterns.flatMap(pattern => {
+      try {
+        return [new RegExp(pattern, 'i')];
+      } catch {
+        logger.warn(`Ignoring invalid console failure pattern: ${pattern}`);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Whether a captured message should also be stored as a failure
+   */
+  isFailure(message: CapturedConsoleMessage): boolean {
+    return this.failurePatterns.some(pattern => pattern.test(message.message));
+  }
+
+  /**
+   * Store the console errors and uncaught exceptions captured by a check
+   */
+  async record(checkId: number, messages: CapturedConsoleMessage[]): Promise<void> {
+    for (const message of messages) {
+      await execute(
+        `INSERT INTO console_messages
+        (check_id, kind, message, source_url, line_number, column_number, occurrence_count)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          checkId,
+          message.kind,
+          message.message,
+          message.source_url,
+          message.line_number,
+          message.column_number,
+          message.occurrence_count,
+        ]
+      );
+    }
+  }
+
+  async listForRun(runId: number): Promise<ConsoleMessage[]> {
+    return await query<ConsoleMessage>(
+      `SELECT cm.*
+      FROM console_messages cm
+      JOIN url_checks uc ON cm.check_id = uc.check_id
+      WHERE uc.run_id = ?
+      ORDER BY cm.check_id ASC, cm.message_id ASC`,
+      [runId]
+    );
+  }
+}
+
+export const consoleService = new ConsoleService();
@@ -0,0 +1,79 @@
+import { query, queryOne, insert, execute } from '../config/database';
+import { CustomErrorType, CreateCustomErrorTypeRequest, ERROR_TYPE_CODES } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { sanitizeString } from '../utils/validators';
+
+const CODE_PATTERN = /^[A-Z][A-Z0-9]{1,3}$/;
+const NAME_PATTERN = /^[a-z][a-z0-9_]{0,99}$/;
+
+export class ErrorTypeService {
+  async list(clientId: number): Promise<CustomErrorType[]> {
+    return await query<CustomErrorType>(
+      'SELECT * FROM custom_error_types WHERE client_id = ? ORDER BY code ASC',
+      [clientId]
+    );
+  }
+
+  async create(clientId: number, data: CreateCustomErrorTypeRequest): Promise<number> {
+    const code = (data.code || '').trim().toUpperCase();
+    const name = (data.name || '').trim();
+
+    if (!CODE_PATTERN.test(code)) {
+      throw new AppError('Code must be 2-4 uppercase letters or digits, starting with a letter', 400);
+    }
+
+    if (ERROR_TYPE_CODES[code]) {
+      throw new AppError(`Code ${code} is a built-in error type`, 400);
+    }
+
+    if (!NAME_PATTERN.test(name)) {
+      throw new AppError('Name must be lowercase letters, digits and underscores, e.g. checkout_error', 400);
+    }
+
+    const client = await queryOne('SELECT client_id FROM clients WHERE client_id = ?', [clientId]);
+    if (!client) {
+      throw new AppError('Client not found', 404);
+    }
+
+    const existing = await queryOne(
+      'SELECT error_type_id FROM custom_error_types WHERE client_id = ? AND code = ?',
+      [clientId, code]
+    );
+    if (existing) {
+      throw new AppError(`Error type ${code} already exists for this client`, 409);
+    }
+
+    return await insert(
+      'INSERT INTO custom_error_types (client_id, code, name, description) VALUES (?, ?, ?, ?)',
+      [clientId, code, name, data.description ? sanitizeString(data.description) : null]
+    );
+  }
+
+  async delete(clientId: number, errorTypeId: number): Promise<void> {
+    const errorType = await queryOne<CustomErrorType>(
+      'SELECT * FROM custom_error_types WHERE error_type_id = ? AND client_id = ?',
+      [errorTypeId, clientId]
+    );
+
+    if (!errorType) {
+      throw new AppError('Error type not found', 404);
+    }
+
+    await execute('DELETE FROM custom_error_types WHERE error_type_id = ?', [errorTypeId]);
+  }
+
+  /**
+   * Code to name map used to decode a client's errors: built-in codes plus the client's own
+   */
+  async getCodeMap(clientId: number): Promise<Record<string, string>> {
+    const customTypes = await this.list(clientId);
+    const codeMap: Record<string, string> = { ...ERROR_TYPE_CODES };
+
+    for (const errorType of customTypes) {
+      codeMap[errorType.code] = errorType.name;
+    }
+    return codeMap;
+  }
+}
+
+export const errorTypeService = new ErrorTypeService();
@@ -0,0 +1,52 @@
+import { execute } from '../config/database';
+import { ABExposureCompact, ReportSource, VariantExposure } from '../types';
+import { sanitizeString } from '../utils/validators';
+
+export class ExposureService {
+  /**
+   * Decode compact exposure counters, skipping malformed entries
+   */
+  decodeCompact(entries: unknown): VariantExposure[] {
+    if (!Array.isArray(entries)) return [];
+
+    return entries
+      .filter(
+        (entry: any): entry is ABExposureCompact =>
+          entry &&
+          typeof entry.t === 'string' &&
+          typeof entry.v === 'string' &&
+          Number.isInteger(entry.n) &&
+          entry.n > 0
+      )
+      .map(entry => ({ test_id: entry.t, variant: entry.v, count: entry.n }));
+  }
+
+  /**
+   * Add exposures to today's per-variant totals
+   */
+  async record(
+    clientId: number,
+    urlId: number,
+    source: ReportSource,
+    exposures: VariantExposure[]
+  ): Promise<void> {
+    for (const exposure of exposures) {
+      await execute(
+        `INSERT INTO variant_exposures
+        (client_id, url_id, source, test_id, variant, exposure_date, exposure_count)
+        VALUES (?, ?, ?, ?, ?, CURDATE(), ?)
+        ON DUPLICATE KEY UPDATE exposure_count = exposure_count + VALUES(exposure_count)`,
+        [
+          clientId,
+          urlId,
+          source,
+          sanitizeString(exposure.test_id),
+          sanitizeString(exposure.variant),
+          exposure.count,
+        ]
+      );
+    }
+  }
+}
+
+export const exposureService = new ExposureService();
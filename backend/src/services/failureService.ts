@@ -7,6 +7,8 @@ import {
 } from '../types';
 import { AppError } from '../middleware/errorHandler';
 import { isValidResolutionStatus } from '../utils/validators';
+import { sourceMapService } from './sourceMapService';
+import { artifactService } from './artifactService';
 
 export class FailureService {
   async list(filters: FailureFilters = {}): Promise<{
@@ -21,6 +23,7 @@ export class FailureService {
       test_id,
       error_type,
       resolution_status,
+      source,
       date_from,
       date_to,
       browser,
@@ -56,6 +59,11 @@ export class FailureService {
       params.push(resolution_status);
     }
 
+    if (source) {
+      conditions.push('df.source = ?');
+      params.push(source);
+    }
+
     if (date_from) {
       conditions.push('df.detected_at >= ?');
       params.push(date_from);
@@ -93,13 +101,14 @@ export class FailureService {
         u.url,
         bc.browser_name,
         bc.device_type,
-        fs.file_path as screenshot_path
+        uc.forced_variant,
+        a.file_path as screenshot_path
       FROM detected_failures df
       INNER JOIN clients c ON df.client_id = c.client_id
       INNER JOIN monitored_urls u ON df.url_id = u.url_id
-      INNER JOIN url_checks uc ON df.check_id = uc.check_id
-      INNER JOIN browser_configurations bc ON uc.config_id = bc.config_id
-      LEFT JOIN failure_screenshots fs ON df.failure_id = fs.failure_id
+      LEFT JOIN url_checks uc ON df.check_id = uc.check_id
+      LEFT JOIN browser_configurations bc ON uc.config_id = bc.config_id
+      LEFT JOIN artifacts a ON df.failure_id = a.failure_id AND a.kind = 'screenshot'
       ${whereClause}
       ORDER BY df.detected_at DESC
       LIMIT ${limit} OFFSET ${offset}
@@ -123,13 +132,14 @@ export class FailureService {
         u.url,
         bc.browser_name,
         bc.device_type,
-        fs.file_path as screenshot_path
+        uc.forced_variant,
+        a.file_path as screenshot_path
       FROM detected_failures df
       INNER JOIN clients c ON df.client_id = c.client_id
       INNER JOIN monitored_urls u ON df.url_id = u.url_id
-      INNER JOIN url_checks uc ON df.check_id = uc.check_id
-      INNER JOIN browser_configurations bc ON uc.config_id = bc.config_id
-      LEFT JOIN failure_screenshots fs ON df.failure_id = fs.failure_id
+      LEFT JOIN url_checks uc ON df.check_id = uc.check_id
+      LEFT JOIN browser_configurations bc ON uc.config_id = bc.config_id
+      LEFT JOIN artifacts a ON df.failure_id = a.failure_id AND a.kind = 'screenshot'
       WHERE df.failure_id = ?
     `;
 
@@ -139,6 +149,17 @@ export class FailureService {
       throw new AppError('Failure not found', 404);
     }
 
+    // Resolve minified frames against the source maps uploaded for this test
+    if (failure.stack_trace && failure.stack_trace.length > 0) {
+      failure.symbolicated_stack_trace = await sourceMapService.symbolicate(
+        failure.client_id,
+        failure.test_id,
+        failure.stack_trace
+      );
+    }
+
+    failure.artifacts = await artifactService.listForFailure(failureId);
+
     return failure;
   }
 
@@ -257,21 +278,6 @@ export class FailureService {
     );
     return results.map((r) => r.browser_from_cookie);
   }
-
-  async getScreenshotPath(failureId: number): Promise<string> {
-    const result = await queryOne<{ file_path: string }>(
-      `SELECT fs.file_path
-       FROM failure_screenshots fs
-       WHERE fs.failure_id = ?`,
-      [failureId]
-    );
-
-    if (!result || !result.file_path) {
-      throw new AppError('Screenshot not found', 404);
-    }
-
-    return result.file_path;
-  }
 }
 
 export const failureService = new FailureService();
@@ -0,0 +1,253 @@
+import { query, queryOne, insert } from '../config/database';
+import { Client, MonitoredUrl, ABTestErrorCookieCompact } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { browserCheckService } from './browserCheckService';
+import { exposureService } from './exposureService';
+import { vitalService } from './vitalService';
+import { scrubRuleService } from './scrubRuleService';
+import { errorTypeService } from './errorTypeService';
+import { sanitizeString, isValidEpochSeconds } from '../utils/validators';
+import { scrubText } from '../utils/scrubber';
+import { isEnvelope, unwrapEnvelope } from '../utils/cookieSchema';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export class IngestService {
+  /**
+   * Parse the request body into a list of compact error entries.
+   * The SDK sends a checksummed envelope as text/plain; older SDKs send a bare
+   * JSON array, and a single object is also accepted.
+   */
+  private parsePayload(body: unknown): ABTestErrorCookieCompact[] {
+    const entries = this.parseEntries(body);
+
+    return entries
+      .slice(0, config.ingestMaxBatchSize)
+      .filter((entry): entry is ABTestErrorCookieCompact => this.isValidEntry(entry));
+  }
+
+  private parseEntries(body: unknown): unknown[] {
+    let data: unknown = body;
+
+    if (typeof body === 'string') {
+      try {
+        data = JSON.parse(body);
+      } catch {
+        throw new AppError('Invalid JSON payload', 400);
+      }
+    }
+
+    if (isEnvelope(data)) {
+      const entries = unwrapEnvelope(data);
+      if (!entries) {
+        throw new AppError('Unsupported payload version or checksum mismatch', 400);
+      }
+      return entries;
+    }
+
+    return Array.isArray(data) ? data : [data];
+  }
+
+  private isValidEntry(entry: any): entry is ABTestErrorCookieCompact {
+    return (
+      browserCheckService.isCompactFormat(entry) &&
+      isValidEpochSeconds(entry.ts) &&
+      typeof entry.v === 'string' &&
+      typeof entry.e === 'string' &&
+      typeof entry.m === 'string' &&
+      typeof entry.b === 'string'
+    );
+  }
+
+  /**
+   * Find the monitored URL a report belongs to. The origin must match one of the
+   * client's active URLs; the referer path picks the most specific match.
+   */
+  private matchMonitoredUrl(
+    urls: MonitoredUrl[],
+    origin: string,
+    pagePath: string | null
+  ): MonitoredUrl | null {
+    let bestMatch: MonitoredUrl | null = null;
+    let bestLength = -1;
+
+    for (const monitored of urls) {
+      let parsed: URL;
+      try {
+        parsed = new URL(monitored.url);
+      } catch {
+        continue;
+      }
+
+      if (parsed.origin !== origin) continue;
+
+      const matchLength = pagePath && pagePath.startsWith(parsed.pathname) ? parsed.pathname.length : 0;
+      if (matchLength > bestLength) {
+        bestMatch = monitored;
+        bestLength = matchLength;
+      }
+    }
+
+    return bestMatch;
+  }
+
+  /**
+   * Resolve the client and monitored URL a report comes from, rejecting
+   * unknown site keys and origins that aren't monitored for the client
+   */
+  private async resolveReporter(
+    siteKey: string | undefined,
+    originHeader: string | undefined,
+    refererHeader: string | undefined
+  ): Promise<{ client: Client; monitoredUrl: MonitoredUrl }> {
+    if (!siteKey) {
+      throw new AppError('Site key required', 401);
+    }
+
+    const client = await queryOne<Client>(
+      'SELECT * FROM clients WHERE site_key = ? AND is_active = TRUE',
+      [siteKey]
+    );
+
+    if (!client) {
+      throw new AppError('Invalid site key', 401);
+    }
+
+    // Prefer the Origin header; fall back to the origin of the referring page
+    let origin: string | null = null;
+    let pagePath: string | null = null;
+    try {
+      if (refererHeader) {
+        const referer = new URL(refererHeader);
+        origin = referer.origin;
+        pagePath = referer.pathname;
+      }
+      if (originHeader && originHeader !== 'null') {
+        const headerOrigin = new URL(originHeader).origin;
+        // Only trust the referer path when it belongs to the reporting origin
+        if (headerOrigin !== origin) {
+          pagePath = null;
+        }
+        origin = headerOrigin;
+      }
+    } catch {
+      throw new AppError('Invalid origin', 403);
+    }
+
+    if (!origin) {
+      throw new AppError('Origin required', 403);
+    }
+
+    const urls = await query<MonitoredUrl>(
+      'SELECT * FROM monitored_urls WHERE client_id = ? AND is_active = TRUE',
+      [client.client_id]
+    );
+
+    const monitoredUrl = this.matchMonitoredUrl(urls, origin, pagePath);
+    if (!monitoredUrl) {
+      throw new AppError('Origin not allowed for this site key', 403);
+    }
+
+    return { client, monitoredUrl };
+  }
+
+  /**
+   * Store errors reported by the SDK transport from real visitors.
+   * Returns the number of failures recorded.
+   */
+  async ingest(
+    siteKey: string | undefined,
+    originHeader: string | undefined,
+    refererHeader: string | undefined,
+    body: unknown
+  ): Promise<number> {
+    const { client, monitoredUrl } = await this.resolveReporter(siteKey, originHeader, refererHeader);
+
+    const entries = this.parsePayload(body);
+    if (entries.length === 0) {
+      throw new AppError('No valid errors in payload', 400);
+    }
+
+    const scrubRules = await scrubRuleService.getCompiledRules(client.client_id);
+    const errorTypes = await errorTypeService.getCodeMap(client.client_id);
+
+    for (const entry of entries) {
+      const errorData = browserCheckService.decodeCompactCookie(entry, errorTypes);
+
+      await insert(
+        `INSERT INTO detected_failures
+        (check_id, url_id, client_id, source, test_id, variant, error_type, error_message,
+         browser_from_cookie, timestamp_from_cookie, stack_trace, occurrence_count)
+        VALUES (NULL, ?, ?, 'rum', ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          monitoredUrl.url_id,
+          client.client_id,
+          sanitizeString(errorData.test_id),
+          sanitizeString(errorData.variant),
+          sanitizeString(errorData.error_type, 100),
+          sanitizeString(
+            scrubText(errorData.error_message, config.scrubDetectors, scrubRules),
+            config.maxErrorMessageLength
+          ),
+          sanitizeString(errorData.browser, 100),
+          new Date(errorData.timestamp),
+          errorData.stack_trace?.length ? JSON.stringify(errorData.stack_trace) : null,
+          errorData.occurrences ?? 1,
+        ]
+      );
+    }
+
+    logger.info(`Ingested ${entries.length} real-user error(s) for client ${client.client_id}`, {
+      url: monitoredUrl.url,
+    });
+    return entries.length;
+  }
+
+  /**
+   * Store variant exposure counts reported by the SDK transport.
+   * Returns the number of variants updated.
+   */
+  async ingestExposures(
+    siteKey: string | undefined,
+    originHeader: string | undefined,
+    refererHeader: string | undefined,
+    body: unknown
+  ): Promise<number> {
+    const { client, monitoredUrl } = await this.resolveReporter(siteKey, originHeader, refererHeader);
+
+    const exposures = exposureService.decodeCompact(
+      this.parseEntries(body).slice(0, config.ingestMaxBatchSize)
+    );
+    if (exposures.length === 0) {
+      throw new AppError('No valid exposures in payload', 400);
+    }
+
+    await exposureService.record(client.client_id, monitoredUrl.url_id, 'rum', exposures);
+    return exposures.length;
+  }
+
+  /**
+   * Store Core Web Vitals samples reported by the SDK transport.
+   * Returns the number of samples stored.
+   */
+  async ingestVitals(
+    siteKey: string | undefined,
+    originHeader: string | undefined,
+    refererHeader: string | undefined,
+    body: unknown
+  ): Promise<number> {
+    const { client, monitoredUrl } = await this.resolveReporter(siteKey, originHeader, refererHeader);
+
+    const vitals = vitalService.decodeCompact(
+      this.parseEntries(body).slice(0, config.ingestMaxBatchSize)
+    );
+    if (vitals.length === 0) {
+      throw new AppError('No valid web vitals in payload', 400);
+    }
+
+    await vitalService.record(client.client_id, monitoredUrl.url_id, 'rum', vitals);
+    return vitals.length;
+  }
+}
+
+export const ingestService = new IngestService();
@@ -1,6 +1,22 @@
 import { query, queryOne, insert, execute } from '../config/database';
 import { browserCheckService } from './browserCheckService';
-import { MonitoredUrl, BrowserConfiguration, MonitoringRun, BrowserCheckResult } from '../types';
+import { exposureService } from './exposureService';
+import { vitalService } from './vitalService';
+import { scrubRuleService } from './scrubRuleService';
+import { errorTypeService } from './errorTypeService';
+import { consoleService } from './consoleService';
+import { networkService } from './networkService';
+import { artifactService } from './artifactService';
+import { browserPool, BrowserEngine } from './browserPool';
+import {
+  MonitoredUrl,
+  BrowserConfiguration,
+  MonitoringRun,
+  BrowserCheckResult,
+  ABTestErrorCookie,
+  CapturedConsoleMessage,
+  CheckArtifact,
+} from '../types';
 import { config } from '../config/env';
 import { logger } from '../utils/logger';
 
@@ -11,6 +27,33 @@ interface CheckResult {
   checkStatus: BrowserCheckResult['checkStatus'];
 }
 
+interface CheckTask {
+  url: MonitoredUrl;
+  config: BrowserConfiguration;
+  variant: string | null;  // variant to force, or null for the page's own assignment
+}
+
+// Check task with the keys its concurrency limits apply to
+interface ScheduledTask extends CheckTask {
+  engine: BrowserEngine;
+  host: string;
+}
+
+interface RunTotals {
+  checked: number;
+  errors: number;
+  unreachable: number;
+  timeouts: number;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
 export class MonitoringService {
   async runMonitoring(triggeredBy: 'cron' | 'manual' = 'cron'): Promise<number> {
     logger.info(`Starting monitoring run (triggered by: ${triggeredBy})`);
@@ -49,81 +92,135 @@ export class MonitoringService {
       logger.info(`Monitoring ${activeUrls.length} URLs across ${browserConfigs.length} browser configs`);
 
       // Generate all URL + browser combinations
-      const checkTasks: Array<{
-        url: MonitoredUrl;
-        config: BrowserConfiguration;
-      }> = [];
+      const checkTasks: CheckTask[] = [];
 
       for (const url of activeUrls) {
+        // URLs that declare how to force their variants are checked once per variant
+        const variants = this.forcedVariantsFor(url);
         for (const bConfig of browserConfigs) {
-          checkTasks.push({ url, config: bConfig });
+          for (const variant of variants) {
+            checkTasks.push({ url, config: bConfig, variant });
+          }
         }
       }
 
       // Update run with total expected checks
       await this.updateRunProgress(runId, 0, checkTasks.length, null, null);
 
-      // Process checks with concurrency limit
-      let totalChecked = 0;
-      let totalErrorsFound = 0;
-      let totalUnreachable = 0;
-      let totalTimeouts = 0;
+      const totals = await this.runCheckTasks(runId, checkTasks);
 
-      for (let i = 0; i < checkTasks.length; i += config.maxConcurrentChecks) {
-        const batch = checkTasks.slice(i, i + config.maxConcurrentChecks);
-
-        // Update current URL/browser being checked (use first item in batch)
-        const currentTask = batch[0];
-        await this.updateRunProgress(
-          runId,
-          totalChecked,
-          checkTasks.length,
-          currentTask.url.url,
-          currentTask.config.browser_name
-        );
+      // Complete the run
+      await this.completeRun(runId, totals.checked, totals.errors, 'completed');
 
-        const batchResults = await Promise.allSettled(
-          batch.map(task => this.performCheck(runId, task.url, task.config))
-        );
+      logger.info(`Monitoring run ${runId} completed: ${totals.checked} checks, ${totals.errors} errors found (${totals.unreachable} unreachable, ${totals.timeouts} timeouts)`);
+      return runId;
+    } catch (error) {
+      logger.error('Monitoring run failed:', error);
+      await this.completeRun(runId, 0, 0, 'failed');
+      throw error;
+    }
+  }
 
-        // Count errors in this batch
-        for (const result of batchResults) {
-          totalChecked++;
+  private forcedVariantsFor(url: MonitoredUrl): (string | null)[] {
+    if (!url.variant_force_method || !url.variant_force_key || !Array.isArray(url.variants)) {
+      return [null];
+    }
+    return url.variants.length > 0 ? url.variants : [null];
+  }
 
-          if (result.status === 'fulfilled') {
-            const checkResult = result.value;
-            if (checkResult.hasError) {
-              totalErrorsFound++;
+  /**
+   * Run checks as a worker pool: a new check starts as soon as one finishes, keeping
+   * up to `maxConcurrentChecks` in flight, at most `maxChecksPerEngine` per browser
+   * engine and `maxChecksPerHost` per target host. Progress is saved after every check.
+   */
+  private async runCheckTasks(runId: number, tasks: CheckTask[]): Promise<RunTotals> {
+    const totals: RunTotals = { checked: 0, errors: 0, unreachable: 0, timeouts: 0 };
+    const pending: ScheduledTask[] = tasks.map(task => ({
+      ...task,
+      engine: browserPool.engineFor(task.config),
+      host: hostOf(task.url.url),
+    }));
+    const inFlight: ScheduledTask[] = [];
+    const perEngine = new Map<BrowserEngine, number>();
+    const perHost = new Map<string, number>();
+
+    // Progress writes are chained so they land in order
+    let progressWrite: Promise<void> = Promise.resolve();
+    const saveProgress = (): void => {
+      const { checked, errors } = totals;
+      const current = inFlight[inFlight.length - 1];
+      progressWrite = progressWrite
+        .then(() =>
+          this.updateRunProgressWithErrors(
+            runId,
+            checked,
+            tasks.length,
+            errors,
+            current ? current.url.url : null,
+            current ? current.config.browser_name : null
+          )
+        )
+        .catch(error => {
+          logger.error('Failed to update run progress:', error);
+        });
+    };
+
+    await new Promise<void>(resolve => {
+      const start = (task: ScheduledTask): void => {
+        inFlight.push(task);
+        perEngine.set(task.engine, (perEngine.get(task.engine) ?? 0) + 1);
+        perHost.set(task.host, (perHost.get(task.host) ?? 0) + 1);
+
+        this.performCheck(runId, task.url, task.config, task.variant)
+          .then(
+            checkResult => {
+              if (checkResult.hasError) totals.errors++;
+              if (checkResult.isUnreachable) totals.unreachable++;
+              if (checkResult.checkStatus === 'timeout') totals.timeouts++;
+            },
+            error => {
+              logger.error('Check failed with exception:', error);
+              // Count exceptions as errors
+              totals.errors++;
             }
-            if (checkResult.isUnreachable) {
-              totalUnreachable++;
-            }
-            if (checkResult.checkStatus === 'timeout') {
-              totalTimeouts++;
-            }
-          } else {
-            logger.error('Check failed with exception:', result.reason);
-            // Count exceptions as errors
-            totalErrorsFound++;
+          )
+          .finally(() => {
+            totals.checked++;
+            inFlight.splice(inFlight.indexOf(task), 1);
+            perEngine.set(task.engine, (perEngine.get(task.engine) ?? 1) - 1);
+            perHost.set(task.host, (perHost.get(task.host) ?? 1) - 1);
+
+            saveProgress();
+            logger.debug(`Progress: ${totals.checked}/${tasks.length} checks completed (${totals.errors} errors, ${totals.unreachable} unreachable, ${totals.timeouts} timeouts)`);
+            fill();
+          });
+      };
+
+      // Start the earliest pending checks whose engine and host have a free slot
+      const fill = (): void => {
+        for (let i = 0; i < pending.length && inFlight.length < config.maxConcurrentChecks; ) {
+          const task = pending[i];
+          if (
+            (perEngine.get(task.engine) ?? 0) >= config.maxChecksPerEngine ||
+            (perHost.get(task.host) ?? 0) >= config.maxChecksPerHost
+          ) {
+            i++;
+            continue;
           }
+          pending.splice(i, 1);
+          start(task);
         }
 
-        // Update progress after batch (include errors in the count for visibility)
-        await this.updateRunProgressWithErrors(runId, totalChecked, checkTasks.length, totalErrorsFound, null, null);
-
-        logger.info(`Progress: ${totalChecked}/${checkTasks.length} checks completed (${totalErrorsFound} errors, ${totalUnreachable} unreachable, ${totalTimeouts} timeouts)`);
-      }
+        if (pending.length === 0 && inFlight.length === 0) {
+          resolve();
+        }
+      };
 
-      // Complete the run
-      await this.completeRun(runId, totalChecked, totalErrorsFound, 'completed');
+      fill();
+    });
 
-      logger.info(`Monitoring run ${runId} completed: ${totalChecked} checks, ${totalErrorsFound} errors found (${totalUnreachable} unreachable, ${totalTimeouts} timeouts)`);
-      return runId;
-    } catch (error) {
-      logger.error('Monitoring run failed:', error);
-      await this.completeRun(runId, 0, 0, 'failed');
-      throw error;
-    }
+    await progressWrite;
+    return totals;
   }
 
   private async updateRunProgress(
@@ -160,28 +257,43 @@ export class MonitoringService {
   private async performCheck(
     runId: number,
     url: MonitoredUrl,
-    browserConfig: BrowserConfiguration
+    browserConfig: BrowserConfiguration,
+    variant: string | null = null
   ): Promise<CheckResult> {
-    logger.debug(`Checking ${url.url} with ${browserConfig.browser_name} ${browserConfig.device_type}`);
+    logger.debug(
+      `Checking ${url.url} with ${browserConfig.browser_name} ${browserConfig.device_type}` +
+        (variant ? ` (variant ${variant})` : '')
+    );
 
     try {
       // Perform browser check
-      const result = await browserCheckService.checkUrl(url.url, browserConfig);
-
-      // Record the check
+      const result = await browserCheckService.checkUrl(url.url, browserConfig, {
+        scrubRules: await scrubRuleService.getCompiledRules(url.client_id),
+        errorTypes: await errorTypeService.getCodeMap(url.client_id),
+        forcedVariant: variant && url.variant_force_method && url.variant_force_key
+          ? { method: url.variant_force_method, key: url.variant_force_key, variant }
+          : undefined,
+        journeySteps: url.journey_steps ?? undefined,
+      });
+
+      // Record the check, with the forced variant so it is attributable without the SDK cookie
       const checkId = await insert(
         `INSERT INTO url_checks
-        (run_id, url_id, config_id, page_load_time_ms, cookie_found, error_detected, check_status, error_message)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        (run_id, url_id, config_id, forced_variant, page_load_time_ms, cookie_found, error_detected,
+         check_status, error_message, step_timings, failed_step)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           runId,
           url.url_id,
           browserConfig.config_id,
+          variant,
           result.pageLoadTimeMs,
           result.cookieFound,
           result.errorDetected,
           result.checkStatus,
           result.errorMessage,
+          result.stepTimings ? JSON.stringify(result.stepTimings) : null,
+          result.failedStep ?? null,
         ]
       );
 
@@ -191,14 +303,46 @@ export class MonitoringService {
         [url.url_id]
       );
 
-      // If error detected (from cookie), create failure record
+      // Count variant exposures reported by the page
+      if (result.exposures && result.exposures.length > 0) {
+        await exposureService.record(url.client_id, url.url_id, 'crawler', result.exposures);
+      }
+
+      // Store Core Web Vitals reported by the page
+      if (result.vitals && result.vitals.length > 0) {
+        await vitalService.record(url.client_id, url.url_id, 'crawler', result.vitals, checkId);
+      }
+
+      // Console errors and uncaught exceptions, captured even when the SDK never loaded
+      const consoleMessages = result.consoleMessages ?? [];
+      if (consoleMessages.length > 0) {
+        await consoleService.record(checkId, consoleMessages);
+      }
+
+      // Failed requests and 4xx/5xx responses, e.g. a variant script missing from the CDN
+      if (result.networkFailures && result.networkFailures.length > 0) {
+        await networkService.record(checkId, result.networkFailures);
+      }
+
+      // Screenshot, HAR and trace, shared by every failure the check records
+      const artifacts: CheckArtifact[] = [
+        ...(result.screenshotPath ? [{ kind: 'screenshot' as const, path: result.screenshotPath }] : []),
+        ...(result.artifacts ?? []),
+      ];
+
+      const consoleFailures = consoleMessages.filter(message => consoleService.isFailure(message));
+      if (consoleFailures.length > 0) {
+        await this.recordConsoleFailures(checkId, url, variant, consoleFailures, artifacts);
+      }
+
+      // If errors detected (from cookie), create one failure record per entry
       if (result.errorDetected && result.errorData) {
         await this.recordFailure(
           checkId,
           url.url_id,
           url.client_id,
           result.errorData,
-          result.screenshotPath
+          artifacts
         );
         return {
           hasError: true,
@@ -209,7 +353,17 @@ export class MonitoringService {
 
       // Check if site was unreachable or had other errors
       const isUnreachable = result.checkStatus === 'unreachable';
-      const hasError = !result.success || result.checkStatus === 'error' || result.checkStatus === 'timeout' || isUnreachable;
+      const hasError =
+        !result.success ||
+        result.checkStatus === 'error' ||
+        result.checkStatus === 'timeout' ||
+        isUnreachable ||
+        consoleFailures.length > 0;
+
+      // Errored and timed-out checks keep their HAR and trace without a failure to hang them on
+      if (consoleFailures.length === 0 && artifacts.length > 0) {
+        await artifactService.record(checkId, null, artifacts);
+      }
 
       return {
         hasError,
@@ -227,12 +381,13 @@ export class MonitoringService {
       // Record failed check
       await insert(
         `INSERT INTO url_checks
-        (run_id, url_id, config_id, check_status, error_message)
-        VALUES (?, ?, ?, ?, ?)`,
+        (run_id, url_id, config_id, forced_variant, check_status, error_message)
+        VALUES (?, ?, ?, ?, ?, ?)`,
         [
           runId,
           url.url_id,
           browserConfig.config_id,
+          variant,
           checkStatus,
           errorMessage,
         ]
@@ -267,54 +422,95 @@ export class MonitoringService {
     checkId: number,
     urlId: number,
     clientId: number,
-    errorData: any,
-    screenshotPath: string | null
+    errors: ABTestErrorCookie[],
+    artifacts: CheckArtifact[]
   ): Promise<void> {
     try {
-      // Parse timestamp from cookie
-      let timestampFromCookie: Date | null = null;
-      try {
-        const parsed = new Date(errorData.timestamp);
-        // Validate the parsed date is valid
-        if (!isNaN(parsed.getTime())) {
-          timestampFromCookie = parsed;
+      for (const errorData of errors) {
+        // Parse timestamp from cookie
+        let timestampFromCookie: Date | null = null;
+        try {
+          const parsed = new Date(errorData.timestamp);
+          // Validate the parsed date is valid
+          if (!isNaN(parsed.getTime())) {
+            timestampFromCookie = parsed;
+          }
+        } catch {
+          // Invalid timestamp, leave as null
+          timestampFromCookie = null;
         }
-      } catch {
-        // Invalid timestamp, leave as null
-        timestampFromCookie = null;
+
+        // Insert failure record
+        const failureId = await insert(
+          `INSERT INTO detected_failures
+          (check_id, url_id, client_id, test_id, variant, error_type, error_message,
+           browser_from_cookie, timestamp_from_cookie, stack_trace, occurrence_count)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            checkId,
+            urlId,
+            clientId,
+            errorData.test_id,
+            errorData.variant,
+            errorData.error_type,
+            errorData.error_message,
+            errorData.browser,
+            timestampFromCookie,
+            errorData.stack_trace?.length ? JSON.stringify(errorData.stack_trace) : null,
+            errorData.occurrences ?? 1,
+          ]
+        );
+
+        // Link the check's artifacts (shared by all errors of the check)
+        await artifactService.record(checkId, failureId, artifacts);
+
+        logger.info(`Failure recorded: ${errorData.test_id} (${errorData.variant})`);
       }
+    } catch (error) {
+      logger.error('Failed to record failure:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store console messages matching CONSOLE_FAILURE_PATTERNS as failures. They
+   * aren't tied to a test by the SDK, so the URL's test and the forced variant
+   * are used where known.
+   */
+  private async recordConsoleFailures(
+    checkId: number,
+    url: MonitoredUrl,
+    variant: string | null,
+    messages: CapturedConsoleMessage[],
+    artifacts: CheckArtifact[]
+  ): Promise<void> {
+    for (const message of messages) {
+      // The message's location as a one-frame stack, so source maps can resolve it
+      const stackTrace = message.source_url && message.line_number !== null && message.column_number !== null
+        ? [{ function_name: null, file: message.source_url, line: message.line_number, column: message.column_number }]
+        : null;
 
-      // Insert failure record
       const failureId = await insert(
         `INSERT INTO detected_failures
-        (check_id, url_id, client_id, test_id, variant, error_type, error_message,
-         browser_from_cookie, timestamp_from_cookie)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        (check_id, url_id, client_id, source, test_id, variant, error_type, error_message,
+         stack_trace, occurrence_count)
+        VALUES (?, ?, ?, 'console', ?, ?, ?, ?, ?, ?)`,
         [
           checkId,
-          urlId,
-          clientId,
-          errorData.test_id,
-          errorData.variant,
-          errorData.error_type,
-          errorData.error_message,
-          errorData.browser,
-          timestampFromCookie,
+          url.url_id,
+          url.client_id,
+          url.test_id || 'unknown',
+          variant || 'unknown',
+          message.kind === 'pageerror' ? 'uncaught_exception' : 'console_error',
+          message.message,
+          stackTrace ? JSON.stringify(stackTrace) : null,
+          message.occurrence_count,
         ]
       );
 
-      // Insert screenshot record if screenshot was captured
-      if (screenshotPath) {
-        await insert(
-          'INSERT INTO failure_screenshots (failure_id, file_path) VALUES (?, ?)',
-          [failureId, screenshotPath]
-        );
-      }
+      await artifactService.record(checkId, failureId, artifacts);
 
-      logger.info(`Failure recorded: ${errorData.test_id} (${errorData.variant})`);
-    } catch (error) {
-      logger.error('Failed to record failure:', error);
-      throw error;
+      logger.info(`Console failure recorded for ${url.url}: ${message.kind}`);
     }
   }
 
@@ -363,7 +559,12 @@ export class MonitoringService {
         mu.url_label,
         c.client_name,
         bc.browser_name,
-        bc.device_type
+        bc.device_type,
+        (SELECT COUNT(*) FROM console_messages cm WHERE cm.check_id = uc.check_id) AS console_message_count,
+        (SELECT COUNT(*) FROM network_failures nf WHERE nf.check_id = uc.check_id) AS network_failure_count,
+        EXISTS (SELECT 1 FROM artifacts a WHERE a.check_id = uc.check_id AND a.kind = 'har') AS has_har,
+        EXISTS (SELECT 1 FROM artifacts a WHERE a.check_id = uc.check_id AND a.kind = 'trace') AS has_trace,
+        EXISTS (SELECT 1 FROM artifacts a WHERE a.check_id = uc.check_id AND a.kind = 'video') AS has_video
       FROM url_checks uc
       JOIN monitored_urls mu ON uc.url_id = mu.url_id
       JOIN clients c ON mu.client_id = c.client_id
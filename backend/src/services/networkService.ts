@@ -0,0 +1,40 @@
+import { query, execute } from '../config/database';
+import { CapturedNetworkFailure, NetworkFailure } from '../types';
+
+export class NetworkService {
+  /**
+   * Store the failed requests and error responses captured by a check
+   */
+  async record(checkId: number, failures: CapturedNetworkFailure[]): Promise<void> {
+    for (const failure of failures) {
+      await execute(
+        `INSERT INTO network_failures
+        (check_id, url, method, status, failure_text, resource_type, duration_ms, occurrence_count)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          checkId,
+          failure.url,
+          failure.method,
+          failure.status,
+          failure.failure_text,
+          failure.resource_type,
+          failure.duration_ms,
+          failure.occurrence_count,
+        ]
+      );
+    }
+  }
+
+  async listForRun(runId: number): Promise<NetworkFailure[]> {
+    return await query<NetworkFailure>(
+      `SELECT nf.*
+      FROM network_failures nf
+      JOIN url_checks uc ON nf.check_id = uc.check_id
+      WHERE uc.run_id = ?
+      ORDER BY nf.check_id ASC, nf.network_failure_id ASC`,
+      [runId]
+    );
+  }
+}
+
+export const networkService = new NetworkService();
@@ -0,0 +1,84 @@
+import { query, queryOne, insert, execute } from '../config/database';
+import { ScrubRule, CreateScrubRuleRequest } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { sanitizeString } from '../utils/validators';
+import { CompiledScrubRule } from '../utils/scrubber';
+import { logger } from '../utils/logger';
+
+export class ScrubRuleService {
+  async list(clientId: number): Promise<ScrubRule[]> {
+    return await query<ScrubRule>(
+      'SELECT * FROM scrub_rules WHERE client_id = ? ORDER BY rule_id ASC',
+      [clientId]
+    );
+  }
+
+  async create(clientId: number, data: CreateScrubRuleRequest): Promise<number> {
+    const { pattern, replacement, description } = data;
+
+    if (!pattern || pattern.trim().length === 0) {
+      throw new AppError('Pattern is required', 400);
+    }
+
+    if (pattern.length > 500) {
+      throw new AppError('Pattern must be at most 500 characters', 400);
+    }
+
+    try {
+      new RegExp(pattern, 'g');
+    } catch {
+      throw new AppError('Pattern is not a valid regular expression', 400);
+    }
+
+    const client = await queryOne('SELECT client_id FROM clients WHERE client_id = ?', [clientId]);
+    if (!client) {
+      throw new AppError('Client not found', 404);
+    }
+
+    return await insert(
+      'INSERT INTO scrub_rules (client_id, pattern, replacement, description) VALUES (?, ?, ?, ?)',
+      [
+        clientId,
+        pattern,
+        replacement ? sanitizeString(replacement, 100) : '[redacted]',
+        description ? sanitizeString(description) : null,
+      ]
+    );
+  }
+
+  async delete(clientId: number, ruleId: number): Promise<void> {
+    const rule = await queryOne<ScrubRule>(
+      'SELECT * FROM scrub_rules WHERE rule_id = ? AND client_id = ?',
+      [ruleId, clientId]
+    );
+
+    if (!rule) {
+      throw new AppError('Scrub rule not found', 404);
+    }
+
+    await execute('DELETE FROM scrub_rules WHERE rule_id = ?', [ruleId]);
+  }
+
+  /**
+   * Active rules for a client as regular expressions. Rules that no longer
+   * compile are skipped rather than failing the check.
+   */
+  async getCompiledRules(clientId: number): Promise<CompiledScrubRule[]> {
+    const rules = await query<ScrubRule>(
+      'SELECT * FROM scrub_rules WHERE client_id = ? AND is_active = TRUE ORDER BY rule_id ASC',
+      [clientId]
+    );
+
+    const compiled: CompiledScrubRule[] = [];
+    for (const rule of rules) {
+      try {
+        compiled.push({ pattern: new RegExp(rule.pattern, 'g'), replacement: rule.replacement });
+      } catch {
+        logger.warn(`Skipping invalid scrub rule ${rule.rule_id}`, { pattern: rule.pattern });
+      }
+    }
+    return compiled;
+  }
+}
+
+export const scrubRuleService = new ScrubRuleService();
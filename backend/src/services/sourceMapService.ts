@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { query, queryOne, insert, execute } from '../config/database';
+import { Client, SourceMap, StackFrame, UploadSourceMapRequest } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { sanitizeString } from '../utils/validators';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+
+export class SourceMapService {
+  // Parsed maps keyed by source_map_id, so repeated lookups don't re-read the file
+  private cache = new Map<number, TraceMap>();
+
+  /**
+   * Normalize a file URL the same way the SDK shortens stack frame files:
+   * no protocol, query string or fragment
+   */
+  private normalizeFileUrl(fileUrl: string): string {
+    return fileUrl.split(/[?#]/)[0].replace(/^[a-z]+:\/\//i, '');
+  }
+
+  /**
+   * Frames from same-origin scripts only keep their path, so a frame matches a
+   * map when the normalized URLs are equal or the map's URL ends with the frame's path
+   */
+  private matchesFrame(sourceMap: SourceMap, frame: StackFrame): boolean {
+    const mapFile = this.normalizeFileUrl(sourceMap.file_url);
+    const frameFile = this.normalizeFileUrl(frame.file);
+    return mapFile === frameFile || (frameFile.startsWith('/') && mapFile.endsWith(frameFile));
+  }
+
+  private parseSourceMap(sourceMap: UploadSourceMapRequest['source_map']): string {
+    let parsed: any;
+    try {
+      parsed = typeof sourceMap === 'string' ? JSON.parse(sourceMap) : sourceMap;
+    } catch {
+      throw new AppError('Source map is not valid JSON', 400);
+    }
+
+    if (!parsed || parsed.version !== 3 || (typeof parsed.mappings !== 'string' && !Array.isArray(parsed.sections))) {
+      throw new AppError('Source map must be a version 3 source map', 400);
+    }
+
+    return JSON.stringify(parsed);
+  }
+
+  private loadTraceMap(sourceMap: SourceMap): TraceMap | null {
+    const cached = this.cache.get(sourceMap.source_map_id);
+    if (cached) return cached;
+
+    try {
+      const traceMap = new TraceMap(fs.readFileSync(sourceMap.file_path, 'utf8'));
+      this.cache.set(sourceMap.source_map_id, traceMap);
+      return traceMap;
+    } catch (error) {
+      logger.error(`Failed to load source map ${sourceMap.source_map_id}:`, error);
+      return null;
+    }
+  }
+
+  private removeFile(filePath: string): void {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      logger.error('Failed to remove source map file:', error);
+    }
+  }
+
+  async list(clientId?: number, testId?: string): Promise<SourceMap[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (clientId) {
+      conditions.push('client_id = ?');
+      params.push(clientId);
+    }
+
+    if (testId) {
+      conditions.push('test_id = ?');
+      params.push(testId);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    return await query<SourceMap>(
+      `SELECT * FROM source_maps ${whereClause} ORDER BY test_id ASC, file_url ASC`,
+      params
+    );
+  }
+
+  /**
+   * Store a source map for a client's test. Uploading again for the same
+   * minified file replaces the previous map.
+   */
+  async upload(data: UploadSourceMapRequest): Promise<number> {
+    const { client_id, test_id, file_url, source_map } = data;
+
+    if (!client_id || !test_id || !file_url || !source_map) {
+      throw new AppError('client_id, test_id, file_url and source_map are required', 400);
+    }
+
+    const client = await queryOne<Client>('SELECT client_id FROM clients WHERE client_id = ?', [client_id]);
+    if (!client) {
+      throw new AppError('Client not found', 404);
+    }
+
+    const content = this.parseSourceMap(source_map);
+    const testId = sanitizeString(test_id);
+    const fileUrl = sanitizeString(file_url, 500);
+
+    // Write the map to disk
+    const clientDir = path.join(config.sourceMapDir, String(client_id));
+    if (!fs.existsSync(clientDir)) {
+      fs.mkdirSync(clientDir, { recursive: true });
+    }
+    const filePath = path.join(clientDir, `${crypto.randomBytes(8).toString('hex')}.map`);
+    fs.writeFileSync(filePath, content, 'utf8');
+
+    const existing = await queryOne<SourceMap>(
+      'SELECT * FROM source_maps WHERE client_id = ? AND test_id = ? AND file_url = ?',
+      [client_id, testId, fileUrl]
+    );
+
+    if (existing) {
+      await execute(
+        'UPDATE source_maps SET file_path = ?, uploaded_at = NOW() WHERE source_map_id = ?',
+        [filePath, existing.source_map_id]
+      );
+      this.removeFile(existing.file_path);
+      this.cache.delete(existing.source_map_id);
+      return existing.source_map_id;
+    }
+
+    return await insert(
+      'INSERT INTO source_maps (client_id, test_id, file_url, file_path) VALUES (?, ?, ?, ?)',
+      [client_id, testId, fileUrl, filePath]
+    );
+  }
+
+  async delete(sourceMapId: number): Promise<void> {
+    const sourceMap = await queryOne<SourceMap>(
+      'SELECT * FROM source_maps WHERE source_map_id = ?',
+      [sourceMapId]
+    );
+
+    if (!sourceMap) {
+      throw new AppError('Source map not found', 404);
+    }
+
+    await execute('DELETE FROM source_maps WHERE source_map_id = ?', [sourceMapId]);
+    this.removeFile(sourceMap.file_path);
+    this.cache.delete(sourceMapId);
+  }
+
+  /**
+   * Resolve minified stack frames to their original positions using the maps
+   * uploaded for the client and test. Frames without a matching map or mapping
+   * resolve to null.
+   */
+  async symbolicate(clientId: number, testId: string, frames: StackFrame[]): Promise<(StackFrame | null)[]> {
+    const sourceMaps = await this.list(clientId, testId);
+
+    return frames.map(frame => {
+      const sourceMap = sourceMaps.find(candidate => this.matchesFrame(candidate, frame));
+      const traceMap = sourceMap ? this.loadTraceMap(sourceMap) : null;
+      if (!traceMap) return null;
+
+      // Stack columns are 1-based, source map columns are 0-based
+      const position = originalPositionFor(traceMap, {
+        line: frame.line,
+        column: Math.max(frame.column - 1, 0),
+      });
+
+      if (position.source === null || position.line === null) return null;
+
+      return {
+        function_name: position.name,
+        file: position.source,
+        line: position.line,
+        column: position.column + 1,
+      };
+    });
+  }
+}
+
+export const sourceMapService = new SourceMapService();
@@ -1,9 +1,112 @@
 import { query, queryOne, insert, execute } from '../config/database';
-import { MonitoredUrl, CreateUrlRequest, UpdateUrlRequest } from '../types';
+import { MonitoredUrl, CreateUrlRequest, UpdateUrlRequest, VariantForceMethod, JourneyStep } from '../types';
 import { AppError } from '../middleware/errorHandler';
-import { isValidUrl, sanitizeString, isPositiveInteger } from '../utils/validators';
+import {
+  isValidUrl,
+  sanitizeString,
+  isPositiveInteger,
+  isValidVariantForceMethod,
+  isValidJourneyStepAction,
+} from '../utils/validators';
+
+const MAX_VARIANTS = 10;
+const MAX_JOURNEY_STEPS = 20;
+const MAX_STEP_TIMEOUT_MS = 60000;
 
 export class UrlService {
+  /**
+   * Validate a list of variant names; an empty list clears it
+   */
+  private normalizeVariants(variants: unknown): string[] | null {
+    if (variants === null || variants === undefined) return null;
+
+    if (!Array.isArray(variants) || variants.some(v => typeof v !== 'string' || v.trim().length === 0)) {
+      throw new AppError('Variants must be a list of variant names', 400);
+    }
+
+    const names = Array.from(new Set(variants.map((v: string) => sanitizeString(v))));
+    if (names.length > MAX_VARIANTS) {
+      throw new AppError(`At most ${MAX_VARIANTS} variants can be checked per URL`, 400);
+    }
+    return names.length > 0 ? names : null;
+  }
+
+  /**
+   * Forcing variants needs both a method and the query parameter, cookie or storage key
+   */
+  private validateVariantForcing(
+    variants: string[] | null,
+    method: VariantForceMethod | null,
+    key: string | null
+  ): void {
+    if (method && !isValidVariantForceMethod(method)) {
+      throw new AppError('Variant force method must be query, cookie or localStorage', 400);
+    }
+
+    if (variants && (!method || !key)) {
+      throw new AppError('A force method and key are required to check variants', 400);
+    }
+  }
+
+  /**
+   * Validate a journey step script; an empty list clears it
+   */
+  private normalizeJourneySteps(steps: unknown): JourneyStep[] | null {
+    if (steps === null || steps === undefined) return null;
+
+    if (!Array.isArray(steps)) {
+      throw new AppError('Journey steps must be a list of steps', 400);
+    }
+    if (steps.length > MAX_JOURNEY_STEPS) {
+      throw new AppError(`A journey can have at most ${MAX_JOURNEY_STEPS} steps`, 400);
+    }
+
+    const normalized = steps.map((step, index) => this.normalizeJourneyStep(step, index + 1));
+    return normalized.length > 0 ? normalized : null;
+  }
+
+  private normalizeJourneyStep(step: any, stepNumber: number): JourneyStep {
+    const fail = (reason: string) => new AppError(`Journey step ${stepNumber}: ${reason}`, 400);
+
+    if (!step || typeof step.action !== 'string' || !isValidJourneyStepAction(step.action)) {
+      throw fail('action must be navigate, click, fill, hover, scroll, waitForSelector or waitForTimeout');
+    }
+
+    const normalized: JourneyStep = { action: step.action };
+
+    if (typeof step.selector === 'string' && step.selector.trim()) {
+      normalized.selector = sanitizeString(step.selector, 500);
+    } else if (['click', 'fill', 'hover', 'waitForSelector'].includes(step.action)) {
+      throw fail('selector is required');
+    }
+
+    if (step.action === 'navigate') {
+      const url = typeof step.url === 'string' ? sanitizeString(step.url, 500) : '';
+      if (!isValidUrl(url) && !url.startsWith('/')) {
+        throw fail('url must be an absolute URL or a path starting with /');
+      }
+      normalized.url = url;
+    }
+
+    if (step.action === 'fill') {
+      if (typeof step.value !== 'string') {
+        throw fail('value is required');
+      }
+      normalized.value = step.value.substring(0, 500);
+    }
+
+    if (step.timeout !== undefined && step.timeout !== null) {
+      if (!isPositiveInteger(step.timeout) || step.timeout > MAX_STEP_TIMEOUT_MS) {
+        throw fail(`timeout must be between 1 and ${MAX_STEP_TIMEOUT_MS}ms`);
+      }
+      normalized.timeout = step.timeout;
+    } else if (step.action === 'waitForTimeout') {
+      throw fail('timeout is required');
+    }
+
+    return normalized;
+  }
+
   async list(clientId?: number): Promise<MonitoredUrl[]> {
     let sql = `
       SELECT * FROM monitored_urls
@@ -21,7 +124,7 @@ export class UrlService {
   }
 
   async create(data: CreateUrlRequest): Promise<number> {
-    const { client_id, url, url_label, is_active, has_active_test, notes } = data;
+    const { client_id, url, url_label, is_active, has_active_test, test_id, notes } = data;
 
     // Validate required fields
     if (!isPositiveInteger(client_id)) {
@@ -36,6 +139,12 @@ export class UrlService {
       throw new AppError('Invalid URL format', 400);
     }
 
+    const variants = this.normalizeVariants(data.variants);
+    const forceMethod = data.variant_force_method || null;
+    const forceKey = data.variant_force_key ? sanitizeString(data.variant_force_key) : null;
+    this.validateVariantForcing(variants, forceMethod, forceKey);
+    const journeySteps = this.normalizeJourneySteps(data.journey_steps);
+
     // Check if client exists
     const clientExists = await queryOne(
       'SELECT client_id FROM clients WHERE client_id = ?',
@@ -58,8 +167,9 @@ export class UrlService {
 
     const sql = `
       INSERT INTO monitored_urls
-      (client_id, url, url_label, is_active, has_active_test, notes)
-      VALUES (?, ?, ?, ?, ?, ?)
+      (client_id, url, url_label, is_active, has_active_test, test_id, variants,
+       variant_force_method, variant_force_key, journey_steps, notes)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const urlId = await insert(sql, [
@@ -68,6 +178,11 @@ export class UrlService {
       url_label ? sanitizeString(url_label) : null,
       is_active !== undefined ? is_active : true,
       has_active_test !== undefined ? has_active_test : true,
+      test_id ? sanitizeString(test_id) : null,
+      variants ? JSON.stringify(variants) : null,
+      forceMethod,
+      forceKey,
+      journeySteps ? JSON.stringify(journeySteps) : null,
       notes || null,
     ]);
 
@@ -89,13 +204,24 @@ export class UrlService {
 
   async update(urlId: number, data: UpdateUrlRequest): Promise<void> {
     // Check if URL exists
-    await this.get(urlId);
+    const existing = await this.get(urlId);
 
     // Validate URL if provided
     if (data.url && !isValidUrl(data.url)) {
       throw new AppError('Invalid URL format', 400);
     }
 
+    // Validate variant forcing against the stored settings it doesn't change
+    const variants = data.variants !== undefined ? this.normalizeVariants(data.variants) : existing.variants;
+    const forceMethod = data.variant_force_method !== undefined
+      ? data.variant_force_method || null
+      : existing.variant_force_method;
+    const forceKey = data.variant_force_key !== undefined
+      ? (data.variant_force_key ? sanitizeString(data.variant_force_key) : null)
+      : existing.variant_force_key;
+    this.validateVariantForcing(variants, forceMethod, forceKey);
+    const journeySteps = data.journey_steps !== undefined ? this.normalizeJourneySteps(data.journey_steps) : null;
+
     const updates: string[] = [];
     const values: any[] = [];
 
@@ -115,6 +241,26 @@ export class UrlService {
       updates.push('has_active_test = ?');
       values.push(data.has_active_test);
     }
+    if (data.test_id !== undefined) {
+      updates.push('test_id = ?');
+      values.push(data.test_id ? sanitizeString(data.test_id) : null);
+    }
+    if (data.variants !== undefined) {
+      updates.push('variants = ?');
+      values.push(variants ? JSON.stringify(variants) : null);
+    }
+    if (data.variant_force_method !== undefined) {
+      updates.push('variant_force_method = ?');
+      values.push(forceMethod);
+    }
+    if (data.variant_force_key !== undefined) {
+      updates.push('variant_force_key = ?');
+      values.push(forceKey);
+    }
+    if (data.journey_steps !== undefined) {
+      updates.push('journey_steps = ?');
+      values.push(journeySteps ? JSON.stringify(journeySteps) : null);
+    }
     if (data.notes !== undefined) {
       updates.push('notes = ?');
       values.push(data.notes || null);
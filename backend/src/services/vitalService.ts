@@ -0,0 +1,61 @@
+import { execute } from '../config/database';
+import { ABVitalCompact, ReportSource, VariantVital, WebVitalMetric } from '../types';
+import { sanitizeString } from '../utils/validators';
+
+export const WEB_VITAL_METRICS: WebVitalMetric[] = ['LCP', 'CLS', 'INP', 'TTFB'];
+
+// Values must fit web_vitals.value, DECIMAL(12, 4)
+const MAX_VITAL_VALUE = 1e8;
+
+export class VitalService {
+  /**
+   * Decode compact Core Web Vitals samples, skipping malformed entries
+   */
+  decodeCompact(entries: unknown): VariantVital[] {
+    if (!Array.isArray(entries)) return [];
+
+    return entries
+      .filter(
+        (entry: any): entry is ABVitalCompact =>
+          entry &&
+          typeof entry.t === 'string' &&
+          typeof entry.v === 'string' &&
+          WEB_VITAL_METRICS.includes(entry.n) &&
+          Number.isFinite(entry.x) &&
+          entry.x >= 0 &&
+          entry.x < MAX_VITAL_VALUE
+      )
+      .map(entry => ({ test_id: entry.t, variant: entry.v, metric: entry.n, value: entry.x }));
+  }
+
+  /**
+   * Store one sample per metric reported for a page view
+   */
+  async record(
+    clientId: number,
+    urlId: number,
+    source: ReportSource,
+    vitals: VariantVital[],
+    checkId: number | null = null
+  ): Promise<void> {
+    for (const vital of vitals) {
+      await execute(
+        `INSERT INTO web_vitals
+        (client_id, url_id, check_id, source, test_id, variant, metric, value)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          clientId,
+          urlId,
+          checkId,
+          source,
+          sanitizeString(vital.test_id),
+          sanitizeString(vital.variant),
+          vital.metric,
+          vital.value,
+        ]
+      );
+    }
+  }
+}
+
+export const vitalService = new VitalService();
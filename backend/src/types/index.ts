@@ -14,11 +14,74 @@ export interface Client {
   company_name: string | null;
   email: string | null;
   contact_person: string | null;
+  site_key: string | null;
   created_at: Date;
   is_active: boolean;
   notes: string | null;
 }
 
+// Per-client custom PII scrubbing rule (applied after the built-in detectors)
+export interface ScrubRule {
+  rule_id: number;
+  client_id: number;
+  pattern: string;  // JavaScript regular expression source, applied globally
+  replacement: string;
+  description: string | null;
+  is_active: boolean;
+  created_at: Date;
+}
+
+export interface CreateScrubRuleRequest {
+  pattern: string;
+  replacement?: string;
+  description?: string;
+}
+
+// Per-client error type code, decoded alongside the built-in ERROR_TYPE_CODES
+export interface CustomErrorType {
+  error_type_id: number;
+  client_id: number;
+  code: string;  // 2-4 uppercase letters/digits, e.g. 'CK'
+  name: string;  // stored as the failure's error_type, e.g. 'checkout_error'
+  description: string | null;
+  created_at: Date;
+}
+
+export interface CreateCustomErrorTypeRequest {
+  code: string;
+  name: string;
+  description?: string;
+}
+
+// How a page lets the crawler force a variant: query parameter, cookie or localStorage key
+export type VariantForceMethod = 'query' | 'cookie' | 'localStorage';
+
+// Actions a journey step can perform before the error cookie is read
+export type JourneyStepAction =
+  | 'navigate'
+  | 'click'
+  | 'fill'
+  | 'hover'
+  | 'scroll'
+  | 'waitForSelector'
+  | 'waitForTimeout';
+
+export interface JourneyStep {
+  action: JourneyStepAction;
+  selector?: string;  // click, fill, hover, waitForSelector; scroll (defaults to the page bottom)
+  url?: string;       // navigate (absolute or relative to the current page)
+  value?: string;     // fill
+  timeout?: number;   // ms; waitForTimeout's wait, or a step's own time limit
+}
+
+// Time taken by one journey step, with the reason it failed
+export interface JourneyStepTiming {
+  step: number;  // 1-based
+  action: JourneyStepAction;
+  duration_ms: number;
+  error?: string;
+}
+
 export interface MonitoredUrl {
   url_id: number;
   client_id: number;
@@ -26,6 +89,11 @@ export interface MonitoredUrl {
   url_label: string | null;
   is_active: boolean;
   has_active_test: boolean;
+  test_id: string | null;
+  variants: string[] | null;  // checked one by one when a force method and key are set
+  variant_force_method: VariantForceMethod | null;
+  variant_force_key: string | null;
+  journey_steps: JourneyStep[] | null;  // run in order after the page loads
   last_checked_at: Date | null;
   created_at: Date;
   notes: string | null;
@@ -40,6 +108,7 @@ export interface BrowserConfiguration {
   viewport_width: number | null;
   viewport_height: number | null;
   user_agent: string | null;
+  record_video: boolean;  // keep a video of checks that find errors or fail
   is_active: boolean;
 }
 
@@ -61,25 +130,69 @@ export interface UrlCheck {
   run_id: number;
   url_id: number;
   config_id: number;
+  forced_variant: string | null;
   checked_at: Date;
   page_load_time_ms: number | null;
   cookie_found: boolean;
   error_detected: boolean;
   check_status: 'success' | 'timeout' | 'error' | 'unreachable';
   error_message: string | null;
+  step_timings: JourneyStepTiming[] | null;
+  failed_step: number | null;
 }
 
+// 'console' failures are promoted console errors; exposures and vitals are only crawler or rum
+export type FailureSource = 'crawler' | 'rum' | 'console';
+export type ReportSource = Exclude<FailureSource, 'console'>;
+
+// console.error() output or an uncaught exception ('pageerror') seen during a check
+export type ConsoleMessageKind = 'console' | 'pageerror';
+
+export interface ConsoleMessage {
+  message_id: number;
+  check_id: number;
+  kind: ConsoleMessageKind;
+  message: string;
+  source_url: string | null;
+  line_number: number | null;
+  column_number: number | null;
+  occurrence_count: number;
+  logged_at: Date;
+}
+
+// Console message as captured by a browser check, before it is stored
+export type CapturedConsoleMessage = Omit<ConsoleMessage, 'message_id' | 'check_id' | 'logged_at'>;
+
+// Request that failed outright or got a 4xx/5xx response during a check
+export interface NetworkFailure {
+  network_failure_id: number;
+  check_id: number;
+  url: string;
+  method: string;
+  status: number | null;        // null when no response was received
+  failure_text: string | null;  // browser error, e.g. net::ERR_NAME_NOT_RESOLVED
+  resource_type: string;        // Playwright resource type, e.g. script, xhr, image
+  duration_ms: number | null;
+  occurrence_count: number;
+  logged_at: Date;
+}
+
+export type CapturedNetworkFailure = Omit<NetworkFailure, 'network_failure_id' | 'check_id' | 'logged_at'>;
+
 export interface DetectedFailure {
   failure_id: number;
-  check_id: number;
+  check_id: number | null;
   url_id: number;
   client_id: number;
+  source: FailureSource;
   test_id: string;
   variant: string;
   error_type: string;
   error_message: string;
   browser_from_cookie: string | null;
   timestamp_from_cookie: Date | null;
+  stack_trace: StackFrame[] | null;
+  occurrence_count: number;
   detected_at: Date;
   resolution_status: 'new' | 'acknowledged' | 'investigating' | 'resolved' | 'ignored';
   resolved_at: Date | null;
@@ -87,13 +200,40 @@ export interface DetectedFailure {
   resolution_notes: string | null;
 }
 
-export interface FailureScreenshot {
-  screenshot_id: number;
-  failure_id: number;
+export interface SourceMap {
+  source_map_id: number;
+  client_id: number;
+  test_id: string;
+  file_url: string;  // URL or path of the minified file the map belongs to
+  file_path: string;
+  uploaded_at: Date;
+}
+
+export interface UploadSourceMapRequest {
+  client_id: number;
+  test_id: string;
+  file_url: string;
+  source_map: string | Record<string, unknown>;
+}
+
+// Files kept to explain a check: a screenshot, a HAR file, a Playwright trace zip and a video
+export type ArtifactKind = 'screenshot' | 'har' | 'trace' | 'video';
+
+export interface Artifact {
+  artifact_id: number;
+  check_id: number | null;
+  failure_id: number | null;  // null for error/timeout checks that recorded no failure
+  kind: ArtifactKind;
   file_path: string;
   captured_at: Date;
 }
 
+// Artifact written by a browser check, before it is stored
+export interface CheckArtifact {
+  kind: ArtifactKind;
+  path: string;
+}
+
 // Cookie error data format (full/decoded)
 export interface ABTestErrorCookie {
   test_id: string;
@@ -102,10 +242,23 @@ export interface ABTestErrorCookie {
   error_message: string;
   browser: string;
   timestamp: string;
+  stack_trace?: StackFrame[];
+  occurrences?: number;
+}
+
+// A single decoded stack frame (top frames only)
+export interface StackFrame {
+  function_name: string | null;
+  file: string;
+  line: number;
+  column: number;
 }
 
 // Compact cookie format (minimized for size)
-// Keys: t=test_id, v=variant, e=error_type, m=message, b=browser, ts=timestamp
+// Keys: t=test_id, v=variant, e=error_type, m=message, b=browser, ts=timestamp, s=stack,
+// c=occurrence count
+// The cookie holds an ABTestErrorEnvelope of these entries, oldest first (older SDKs write a
+// bare array or a single object)
 export interface ABTestErrorCookieCompact {
   t: string;   // test_id
   v: string;   // variant
@@ -113,6 +266,48 @@ export interface ABTestErrorCookieCompact {
   m: string;   // error_message (truncated)
   b: string;   // browser code (see BROWSER_CODES)
   ts: number;  // timestamp as unix epoch (seconds)
+  s?: string;  // top stack frames as "fn@file:line:col|fn@file:line:col"
+  c?: number;  // times the error occurred when the SDK merged repeats (default 1)
+}
+
+// Versioned payload written by SDK schema 2+ (cookie value and transport body)
+// Keys: v=schema version, e=entries, h=checksum of JSON.stringify(e)
+export interface ABTestErrorEnvelope {
+  v: number;
+  e: ABTestErrorCookieCompact[];
+  h: string;  // FNV-1a 32-bit hash, 8 hex characters
+}
+
+// Compact exposure counter written by the SDK (cookie `<cookie name>_exp` and beacon)
+// Keys: t=test_id, v=variant, n=exposure count
+export interface ABExposureCompact {
+  t: string;
+  v: string;
+  n: number;
+}
+
+export interface VariantExposure {
+  test_id: string;
+  variant: string;
+  count: number;
+}
+
+export type WebVitalMetric = 'LCP' | 'CLS' | 'INP' | 'TTFB';
+
+// Compact Core Web Vitals sample written by the SDK (cookie `<cookie name>_vit` and beacon)
+// Keys: t=test_id, v=variant, n=metric, x=value (ms; unitless for CLS)
+export interface ABVitalCompact {
+  t: string;
+  v: string;
+  n: WebVitalMetric;
+  x: number;
+}
+
+export interface VariantVital {
+  test_id: string;
+  variant: string;
+  metric: WebVitalMetric;
+  value: number;
 }
 
 // Error type codes for compact format
@@ -177,6 +372,11 @@ export interface CreateUrlRequest {
   url_label?: string;
   is_active?: boolean;
   has_active_test?: boolean;
+  test_id?: string | null;
+  variants?: string[] | null;
+  variant_force_method?: VariantForceMethod | null;
+  variant_force_key?: string | null;
+  journey_steps?: JourneyStep[] | null;
   notes?: string;
 }
 
@@ -185,9 +385,21 @@ export interface UpdateUrlRequest {
   url_label?: string;
   is_active?: boolean;
   has_active_test?: boolean;
+  test_id?: string | null;
+  variants?: string[] | null;
+  variant_force_method?: VariantForceMethod | null;
+  variant_force_key?: string | null;
+  journey_steps?: JourneyStep[] | null;
   notes?: string;
 }
 
+// Variant the crawler forces for a check
+export interface ForcedVariant {
+  method: VariantForceMethod;
+  key: string;
+  variant: string;
+}
+
 export interface CreateBrowserConfigRequest {
   browser_name: string;
   browser_version?: string;
@@ -196,6 +408,7 @@ export interface CreateBrowserConfigRequest {
   viewport_width?: number;
   viewport_height?: number;
   user_agent?: string;
+  record_video?: boolean;
   is_active?: boolean;
 }
 
@@ -207,6 +420,7 @@ export interface UpdateBrowserConfigRequest {
   viewport_width?: number;
   viewport_height?: number;
   user_agent?: string;
+  record_video?: boolean;
   is_active?: boolean;
 }
 
@@ -226,6 +440,7 @@ export interface FailureFilters {
   test_id?: string;
   error_type?: string;
   resolution_status?: string;
+  source?: string;
   date_from?: string;
   date_to?: string;
   browser?: string;
@@ -239,10 +454,17 @@ export interface BrowserCheckResult {
   pageLoadTimeMs: number | null;
   cookieFound: boolean;
   errorDetected: boolean;
-  errorData: ABTestErrorCookie | null;
+  errorData: ABTestErrorCookie[] | null;
+  exposures?: VariantExposure[];
+  vitals?: VariantVital[];
   screenshotPath: string | null;
   checkStatus: 'success' | 'timeout' | 'error' | 'unreachable';
   errorMessage: string | null;
+  stepTimings?: JourneyStepTiming[];
+  failedStep?: number | null;
+  consoleMessages?: CapturedConsoleMessage[];
+  networkFailures?: CapturedNetworkFailure[];
+  artifacts?: CheckArtifact[];  // HAR and trace, kept for checks with errors, error or timeout
 }
 
 // Analytics types
@@ -267,6 +489,23 @@ export interface GroupedCount {
   count: number;
 }
 
+export interface VariantErrorRate {
+  test_id: string;
+  variant: string;
+  exposures: number;
+  failures: number;
+  error_rate: number;  // failures per exposure
+}
+
+export interface VariantVitalSummary {
+  test_id: string;
+  variant: string;
+  metric: WebVitalMetric;
+  samples: number;
+  p75: number;
+  average: number;
+}
+
 // Extended types with joins
 export interface ClientWithStats extends Client {
   url_count: number;
@@ -276,9 +515,13 @@ export interface ClientWithStats extends Client {
 export interface FailureWithDetails extends DetectedFailure {
   client_name: string;
   url: string;
-  browser_name: string;
-  device_type: string;
+  browser_name: string | null;  // null for RUM failures (no crawler check)
+  device_type: string | null;
   screenshot_path: string | null;
+  forced_variant: string | null;  // variant the crawler forced for the check, if any
+  artifacts?: Pick<Artifact, 'artifact_id' | 'kind' | 'captured_at'>[];
+  // Original positions for stack_trace frames (null where no source map matched)
+  symbolicated_stack_trace?: (StackFrame | null)[] | null;
 }
 
 export interface MonitoringRunWithDetails extends MonitoringRun {
@@ -0,0 +1,47 @@
+// Versioned SDK error payloads: { v: schema version, e: entries, h: checksum }
+// Schema 1 (unversioned) payloads are a bare array or a single entry.
+
+import { ABTestErrorEnvelope } from '../types';
+import { logger } from './logger';
+
+export const COOKIE_SCHEMA_VERSION = 2;
+
+/**
+ * FNV-1a 32-bit hash of a string as 8 hex characters (matches the SDK)
+ */
+export function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+export function isEnvelope(data: any): data is ABTestErrorEnvelope {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof data.v === 'number' &&
+    Array.isArray(data.e) &&
+    typeof data.h === 'string'
+  );
+}
+
+/**
+ * Entries of a versioned payload, or null when its schema version is newer
+ * than this server understands or the checksum does not match the entries
+ */
+export function unwrapEnvelope(envelope: ABTestErrorEnvelope): unknown[] | null {
+  if (envelope.v > COOKIE_SCHEMA_VERSION) {
+    logger.warn(`Unsupported error payload schema version ${envelope.v}`);
+    return null;
+  }
+
+  if (checksum(JSON.stringify(envelope.e)) !== envelope.h) {
+    logger.warn('Error payload checksum mismatch', { schemaVersion: envelope.v });
+    return null;
+  }
+
+  return envelope.e;
+}
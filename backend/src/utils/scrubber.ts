@@ -0,0 +1,78 @@
+// PII scrubbing for error messages before they are stored
+
+export type ScrubDetector = 'email' | 'jwt' | 'card' | 'querySecret';
+
+export interface CompiledScrubRule {
+  pattern: RegExp;
+  replacement: string;
+}
+
+export const SCRUB_DETECTORS: ScrubDetector[] = ['email', 'jwt', 'card', 'querySecret'];
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const QUERY_SECRET_PATTERN =
+  /([?&#;](?:access_token|id_token|refresh_token|token|api_key|apikey|key|secret|password|passwd|pwd|auth|session|sid|code|signature|sig)=)[^&#\s"']+/gi;
+
+/**
+ * Luhn checksum, so only plausible card numbers are redacted (not timestamps or IDs)
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function applyDetector(text: string, detector: ScrubDetector): string {
+  switch (detector) {
+    case 'email':
+      return text.replace(EMAIL_PATTERN, '[email]');
+    case 'jwt':
+      return text.replace(JWT_PATTERN, '[jwt]');
+    case 'card':
+      return text.replace(CARD_PATTERN, match =>
+        passesLuhn(match.replace(/[ -]/g, '')) ? '[card]' : match
+      );
+    case 'querySecret':
+      return text.replace(QUERY_SECRET_PATTERN, '$1[redacted]');
+  }
+}
+
+/**
+ * Parse a comma-separated detector list, ignoring unknown names
+ */
+export function parseDetectors(value: string): ScrubDetector[] {
+  return value
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is ScrubDetector => SCRUB_DETECTORS.includes(name as ScrubDetector));
+}
+
+/**
+ * Redact PII from text: built-in detectors first, then custom rules in order
+ */
+export function scrubText(
+  text: string,
+  detectors: ScrubDetector[],
+  rules: CompiledScrubRule[] = []
+): string {
+  let result = text;
+
+  for (const detector of detectors) {
+    result = applyDetector(result, detector);
+  }
+
+  for (const rule of rules) {
+    result = result.replace(rule.pattern, rule.replacement);
+  }
+
+  return result;
+}
@@ -1,4 +1,5 @@
 // Simple validation utilities
+import { JourneyStepAction, ReportSource } from '../types';
 
 export function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -30,12 +31,29 @@ export function isPositiveInteger(value: any): boolean {
   return Number.isInteger(value) && value > 0;
 }
 
+// Epoch seconds that a Date can represent; larger values make toISOString() throw
+export function isValidEpochSeconds(value: any): boolean {
+  return Number.isFinite(value) && value > 0 && value < 1e11;
+}
+
 export function isValidResolutionStatus(
   status: string
 ): status is 'new' | 'acknowledged' | 'investigating' | 'resolved' | 'ignored' {
   return ['new', 'acknowledged', 'investigating', 'resolved', 'ignored'].includes(status);
 }
 
+export function isValidVariantForceMethod(method: string): method is 'query' | 'cookie' | 'localStorage' {
+  return ['query', 'cookie', 'localStorage'].includes(method);
+}
+
+export function isValidJourneyStepAction(action: string): action is JourneyStepAction {
+  return ['navigate', 'click', 'fill', 'hover', 'scroll', 'waitForSelector', 'waitForTimeout'].includes(action);
+}
+
+export function isValidReportSource(source: string): source is ReportSource {
+  return ['crawler', 'rum'].includes(source);
+}
+
 export function isValidDeviceType(type: string): type is 'desktop' | 'mobile' | 'tablet' {
   return ['desktop', 'mobile', 'tablet'].includes(type);
 }
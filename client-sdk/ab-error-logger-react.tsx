@@ -0,0 +1,159 @@
+/**
+ * AB Test Error Logger - React bindings
+ *
+ * Error boundary and hook built on ABErrorLogger for variants written as React components.
+ *
+ * Usage:
+ *   <ABTestErrorBoundary testId="homepage_hero_v2" variant="B" fallback={<ControlHero />}>
+ *     <VariantHero />
+ *   </ABTestErrorBoundary>
+ *
+ *   // Inside the boundary, a logger bound to its test and variant
+ *   const abLogger = useABErrorLogger();
+ *   abLogger.logAPIError('Pricing request failed');
+ *
+ * Render errors are logged with logRenderError (`RN`) and the fallback - usually the
+ * control experience - is rendered instead of the variant. Pass a configured logger
+ * (e.g. with a transport) through the `logger` prop; nested boundaries inherit it.
+ */
+
+import { Component, createContext, useContext, useMemo } from 'react';
+import type { ErrorInfo, ReactNode } from 'react';
+import { ABErrorLogger } from './ab-error-logger';
+import type { AnyErrorTypeCode, BrowserCode, WebVitalName } from './ab-error-logger';
+
+interface ABTestContextValue {
+  logger: ABErrorLogger;
+  testId: string;
+  variant: string;
+}
+
+let defaultLogger: ABErrorLogger | null = null;
+
+/**
+ * Shared logger used when no boundary above provides one, created on first use
+ */
+function getDefaultLogger(): ABErrorLogger {
+  if (!defaultLogger) {
+    defaultLogger = new ABErrorLogger();
+  }
+  return defaultLogger;
+}
+
+const ABTestContext = createContext<ABTestContextValue | null>(null);
+
+export type ABTestFallback = ReactNode | ((error: Error, reset: () => void) => ReactNode);
+
+export interface ABTestErrorBoundaryProps {
+  testId: string;
+  variant: string;
+  fallback: ABTestFallback;  // rendered after a render error, usually the control
+  logger?: ABErrorLogger;    // default: the nearest boundary's logger, or a shared one
+  onError?: (error: Error, info: ErrorInfo) => void;
+  children?: ReactNode;
+}
+
+interface ABTestErrorBoundaryInnerProps extends ABTestErrorBoundaryProps {
+  logger: ABErrorLogger;
+}
+
+interface ABTestErrorBoundaryState {
+  error: Error | null;
+}
+
+class ABTestErrorBoundaryInner extends Component<ABTestErrorBoundaryInnerProps, ABTestErrorBoundaryState> {
+  state: ABTestErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ABTestErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo): void {
+    const { logger, testId, variant, onError } = this.props;
+    const message = error instanceof Error ? error.message : String(error);
+    logger.logRenderError(testId, variant, message || 'Render error', error?.stack);
+    onError?.(error, info);
+  }
+
+  componentDidUpdate(prevProps: ABTestErrorBoundaryInnerProps): void {
+    // A different test or variant gets a fresh attempt at rendering
+    if (
+      this.state.error &&
+      (prevProps.testId !== this.props.testId || prevProps.variant !== this.props.variant)
+    ) {
+      this.reset();
+    }
+  }
+
+  reset = (): void => {
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    const { error } = this.state;
+    const { fallback, children } = this.props;
+
+    if (error) {
+      return typeof fallback === 'function' ? fallback(error, this.reset) : fallback;
+    }
+    return children;
+  }
+}
+
+/**
+ * Error boundary for a test variant: logs render errors and renders the fallback
+ */
+export function ABTestErrorBoundary(props: ABTestErrorBoundaryProps): JSX.Element {
+  const parent = useContext(ABTestContext);
+  const logger = props.logger ?? parent?.logger ?? getDefaultLogger();
+  const value = useMemo(
+    () => ({ logger, testId: props.testId, variant: props.variant }),
+    [logger, props.testId, props.variant]
+  );
+
+  return (
+    <ABTestContext.Provider value={value}>
+      <ABTestErrorBoundaryInner {...props} logger={logger} />
+    </ABTestContext.Provider>
+  );
+}
+
+export interface BoundABErrorLogger {
+  testId: string;
+  variant: string;
+  logError(errorType: AnyErrorTypeCode, message: string, stack?: string, browser?: BrowserCode): boolean;
+  logJSError(message: string, stack?: string): boolean;
+  logNetworkError(message: string): boolean;
+  logAPIError(message: string): boolean;
+  logRenderError(message: string, stack?: string): boolean;
+  logTimeoutError(message: string): boolean;
+  logExposure(): boolean;
+  logVital(name: WebVitalName, value: number): boolean;
+}
+
+/**
+ * Logger bound to a test and variant. Without arguments, uses the nearest
+ * ABTestErrorBoundary; explicit arguments override it.
+ */
+export function useABErrorLogger(testId?: string, variant?: string, logger?: ABErrorLogger): BoundABErrorLogger {
+  const context = useContext(ABTestContext);
+  const boundLogger = logger ?? context?.logger ?? getDefaultLogger();
+  const boundTestId = testId ?? context?.testId ?? '';
+  const boundVariant = variant ?? context?.variant ?? '';
+
+  return useMemo(() => ({
+    testId: boundTestId,
+    variant: boundVariant,
+    logError: (errorType, message, stack, browser) =>
+      boundLogger.logError({ testId: boundTestId, variant: boundVariant, errorType, message, stack, browser }),
+    logJSError: (message, stack) => boundLogger.logJSError(boundTestId, boundVariant, message, stack),
+    logNetworkError: message => boundLogger.logNetworkError(boundTestId, boundVariant, message),
+    logAPIError: message => boundLogger.logAPIError(boundTestId, boundVariant, message),
+    logRenderError: (message, stack) => boundLogger.logRenderError(boundTestId, boundVariant, message, stack),
+    logTimeoutError: message => boundLogger.logTimeoutError(boundTestId, boundVariant, message),
+    logExposure: () => boundLogger.logExposure(boundTestId, boundVariant),
+    logVital: (name, value) => boundLogger.logVital(boundTestId, boundVariant, name, value),
+  }), [boundLogger, boundTestId, boundVariant]);
+}
+
+export default ABTestErrorBoundary;
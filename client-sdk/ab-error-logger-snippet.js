@@ -0,0 +1,27 @@
+/**
+ * AB Test Error Logger - async loader snippet
+ *
+ * Paste inline in <head>, before any variant code, and set the SDK URL on the last line.
+ * Calls are queued as arrays until the SDK loads and replays them:
+ *
+ *   abErrQ.push(['init', 'ab_test_error', { transport: { url, siteKey } }]);  // optional, first
+ *   abErrQ.push(['install', { testId: 'homepage_hero_v2', variant: 'B' }]);
+ *   abErrQ.push(['logJSError', 'homepage_hero_v2', 'B', 'Button handler failed']);
+ *
+ * Uncaught errors and rejections that happen before the SDK loads are buffered too
+ * (up to 20) and logged for the test/variant passed to `install`.
+ */
+(function(w, d, src) {
+  var q = w.abErrQ = w.abErrQ || [];
+  var captured = 0;
+  function capture(event) {
+    if (!q.loaded && captured++ < 20) q.push(['_event', event]);
+  }
+  w.addEventListener('error', capture, true);
+  w.addEventListener('unhandledrejection', capture);
+
+  var script = d.createElement('script');
+  script.async = true;
+  script.src = src;
+  (d.head || d.documentElement).appendChild(script);
+})(window, document, 'https://cdn.example.com/ab-error-logger.iife.js');
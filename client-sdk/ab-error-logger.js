@@ -16,6 +16,67 @@
  *     message: 'Button click handler failed',
  *     browser: 'CH'           // Use short codes: CH, FF, SF, ED, OP, BR, UK
  *   });
+ *
+ *   // Custom error type codes registered for the client on the monitor
+ *   const logger = new ABErrorLogger('ab_test_error', { errorTypes: { CK: 'checkout_error' } });
+ *   logger.logError({ testId: 'checkout_v3', variant: 'B', errorType: 'CK', message: 'Payment step failed' });
+ *
+ *   // Pass a stack to keep its top frames (fn@file:line:col, pipe-separated)
+ *   logger.logJSError('homepage_hero_v2', 'B', err.message, err.stack);
+ *
+ *   // Record each time a variant is shown so failures can be turned into error rates
+ *   logger.logExposure('homepage_hero_v2', 'B');
+ *
+ *   // Or capture uncaught errors automatically while a test is active
+ *   logger.install({ testId: 'homepage_hero_v2', variant: 'B' });
+ *   logger.uninstall();
+ *
+ *   // Also log failed fetch/XHR calls, ignoring third-party noise
+ *   logger.install({
+ *     testId: 'homepage_hero_v2',
+ *     variant: 'B',
+ *     captureNetwork: { allowUrls: ['/api/'], denyUrls: [/analytics/] }
+ *   });
+ *
+ * The cookie holds a JSON array of the most recent errors (oldest first).
+ * Duplicate errors replace older entries, and the oldest entries are evicted
+ * once `maxErrors` is exceeded. With `maxCookieChunks` above 1 (default 1), a
+ * payload larger than `maxCookieBytes` is split across `<cookieName>_0..n` cookies
+ * before old entries are evicted; a single oversized error loses its stack, then is shortened.
+ *
+ * Repeats of an error (same test, variant, type and message ignoring numbers/ids)
+ * are merged into one entry whose `c` field counts occurrences. Volume can be
+ * limited further with `sampleRate` (fraction of browser sessions that log) and
+ * `maxErrorsPerSession` (distinct errors per session, default 50).
+ *
+ * Emails, JWTs, card numbers and query-string secrets are redacted from messages
+ * before logging. Choose detectors or add rules, or pass `scrub: false` to disable:
+ *   new ABErrorLogger('ab_test_error', {
+ *     scrub: { detectors: ['email', 'querySecret'], rules: [{ pattern: /ORD-\d+/g, replacement: '[order]' }] }
+ *   });
+ *
+ * Where cookies are stripped or blocked, write the same buffer to other channels
+ * (read by the crawler alongside the cookie; storage uses the cookie name as key):
+ *   new ABErrorLogger('ab_test_error', { channels: ['localStorage', 'window'] });  // window.__AB_ERRORS__
+ *
+ * Opt in to Core Web Vitals (LCP, CLS, INP, TTFB) for the installed test/variant; the
+ * latest values go to the `<cookieName>_vit` cookie and the transport's `/vitals` endpoint:
+ *   logger.install({ testId: 'homepage_hero_v2', variant: 'B', captureVitals: true });
+ *
+ * Where consent is required before storing anything, errors are held in memory
+ * until `grantConsent()` (or the IAB TCF CMP via `__tcfapi`) grants it, and dropped
+ * by `denyConsent()`. A page can preset `window.__AB_CONSENT__ = 'granted'`:
+ *   new ABErrorLogger('ab_test_error', { consent: { purposes: [1] } });
+ *
+ * When loaded after ab-error-logger-snippet.js, commands queued in `window.abErrQ`
+ * (e.g. `abErrQ.push(['install', { testId, variant }])`) are replayed, and later
+ * pushes run immediately.
+ *
+ * Errors can additionally be sent to a collector endpoint. Undelivered errors
+ * are kept in localStorage and retried on the next page load:
+ *   const logger = new ABErrorLogger('ab_test_error', {
+ *     transport: { url: 'https://monitor.example.com/api/ingest', siteKey: '<client site key>' }
+ *   });
  */
 
 (function(global) {
@@ -59,16 +120,766 @@
     return 'UK';
   }
 
+  /**
+   * Classify a thrown value or rejection reason into an error type code
+   */
+  function classifyError(error, fallback = 'UK') {
+    if (typeof Response !== 'undefined' && error instanceof Response) {
+      return error.status === 401 || error.status === 403 ? 'AU' : 'AP';
+    }
+
+    const name = error instanceof Error ? error.name : '';
+    const message = (error instanceof Error ? error.message : String(error == null ? '' : error)).toLowerCase();
+
+    if (name === 'TimeoutError' || message.includes('timeout') || message.includes('timed out')) {
+      return 'TO';
+    }
+    if (
+      name === 'NetworkError' ||
+      name === 'ChunkLoadError' ||
+      message.includes('failed to fetch') ||
+      message.includes('networkerror') ||
+      message.includes('network request failed') ||
+      message.includes('load failed')
+    ) {
+      return 'NW';
+    }
+    if (message.includes('unauthorized') || message.includes('forbidden')) {
+      return 'AU';
+    }
+    if (error instanceof Error) {
+      return 'JS';
+    }
+    return fallback;
+  }
+
+  /**
+   * Build a readable message from a thrown value or rejection reason
+   */
+  function describeError(error) {
+    if (typeof Response !== 'undefined' && error instanceof Response) {
+      return `HTTP ${error.status} ${error.url}`;
+    }
+    if (error instanceof Error) {
+      return error.message || error.name;
+    }
+    return String(error);
+  }
+
+  const CHROME_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+  const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+  /**
+   * Parse an Error.stack string (V8 or Gecko/WebKit format) into frames
+   */
+  function parseStack(stack) {
+    const frames = [];
+
+    for (const line of stack.split('\n')) {
+      const match = CHROME_FRAME.exec(line) || GECKO_FRAME.exec(line);
+      if (!match) continue;
+
+      frames.push({
+        fn: match[1] || null,
+        file: match[2],
+        line: parseInt(match[3], 10),
+        column: parseInt(match[4], 10)
+      });
+    }
+    return frames;
+  }
+
+  /**
+   * Shorten a frame's file URL: same-origin files keep only their path,
+   * others drop the protocol; query strings and fragments are removed
+   */
+  function shortenFile(file) {
+    const bare = stripQuery(file);
+    if (typeof location !== 'undefined' && bare.startsWith(location.origin + '/')) {
+      return bare.slice(location.origin.length);
+    }
+    return bare.replace(/^[a-z]+:\/\//i, '');
+  }
+
+  /**
+   * Compact the top frames of a stack into "fn@file:line:col|..." within a byte budget
+   */
+  function compactStack(stack, maxFrames, maxBytes) {
+    const parts = [];
+    let size = 0;
+
+    for (const frame of parseStack(stack).slice(0, maxFrames)) {
+      const fn = (frame.fn || '').replace(/[|@]/g, '');
+      const part = `${fn}@${shortenFile(frame.file)}:${frame.line}:${frame.column}`;
+      const nextSize = size + part.length + (parts.length > 0 ? 1 : 0);
+      if (nextSize > maxBytes) break;
+
+      parts.push(part);
+      size = nextSize;
+    }
+    return parts.length > 0 ? parts.join('|') : undefined;
+  }
+
+  /**
+   * Normalize a message so errors differing only in ids or numbers share a fingerprint
+   */
+  function normalizeMessage(message) {
+    return message
+      .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+      .replace(/\d+/g, '#')
+      .trim()
+      .toLowerCase();
+  }
+
+  /**
+   * Fingerprint an error by test, variant, type and normalized message
+   */
+  function fingerprint(entry) {
+    return [entry.t, entry.v, entry.e, normalizeMessage(entry.m)].join('|');
+  }
+
+  /**
+   * Drop query string and fragment so tokens and IDs in parameters are not logged
+   */
+  function stripQuery(url) {
+    return url.split(/[?#]/)[0];
+  }
+
+  /**
+   * Append the site key as a query parameter - sendBeacon cannot set headers
+   */
+  function withSiteKey(url, siteKey) {
+    return siteKey ? `${url}${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(siteKey)}` : url;
+  }
+
+  const SCRUB_DETECTORS = ['email', 'jwt', 'card', 'querySecret'];
+  const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+  const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+  const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+  const QUERY_SECRET_PATTERN =
+    /([?&#;](?:access_token|id_token|refresh_token|token|api_key|apikey|key|secret|password|passwd|pwd|auth|session|sid|code|signature|sig)=)[^&#\s"']+/gi;
+
+  /**
+   * Luhn checksum, so only plausible card numbers are redacted (not timestamps or IDs)
+   */
+  function passesLuhn(digits) {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+      let digit = parseInt(digits[digits.length - 1 - i], 10);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+    return sum % 10 === 0;
+  }
+
+  /**
+   * Redact PII from a message: built-in detectors first, then custom rules in order
+   */
+  function scrubMessage(message, detectors, rules) {
+    let result = message;
+
+    if (detectors.includes('email')) result = result.replace(EMAIL_PATTERN, '[email]');
+    if (detectors.includes('jwt')) result = result.replace(JWT_PATTERN, '[jwt]');
+    if (detectors.includes('card')) {
+      result = result.replace(CARD_PATTERN, match =>
+        passesLuhn(match.replace(/[ -]/g, '')) ? '[card]' : match
+      );
+    }
+    if (detectors.includes('querySecret')) result = result.replace(QUERY_SECRET_PATTERN, '$1[redacted]');
+
+    rules.forEach(rule => {
+      const pattern = typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'g') : rule.pattern;
+      result = result.replace(pattern, rule.replacement || '[redacted]');
+    });
+    return result;
+  }
+
+  // Cookie value and transport body: { v: schema version, e: entries, h: checksum of JSON.stringify(e) }
+  const SCHEMA_VERSION = 2;
+  const CUSTOM_CODE_PATTERN = /^[A-Z][A-Z0-9]{1,3}$/;
+
+  /**
+   * FNV-1a 32-bit hash of a string as 8 hex characters (matches the backend)
+   */
+  function checksum(text) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  }
+
+  /**
+   * Wrap errors in the versioned, checksummed payload format
+   */
+  function toEnvelope(entries) {
+    return { v: SCHEMA_VERSION, e: entries, h: checksum(JSON.stringify(entries)) };
+  }
+
+  /**
+   * Parse a stored error buffer. A tampered or truncated envelope is discarded
+   * rather than extended; older SDK versions wrote a bare list or a single object.
+   */
+  function parseBuffer(json) {
+    const data = JSON.parse(json);
+    if (data && typeof data.v === 'number' && Array.isArray(data.e)) {
+      return data.h === checksum(JSON.stringify(data.e)) ? data.e : [];
+    }
+    return Array.isArray(data) ? data : [data];
+  }
+
+  /**
+   * Web Storage for a channel, or null where it is unavailable or blocked
+   */
+  function storageFor(channel) {
+    try {
+      return channel === 'localStorage' ? localStorage : sessionStorage;
+    } catch {
+      return null;
+    }
+  }
+
+  function matchesPattern(url, patterns) {
+    return patterns.some(pattern =>
+      typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)
+    );
+  }
+
   /**
    * ABErrorLogger class
    */
   class ABErrorLogger {
     constructor(cookieName = 'ab_test_error', options = {}) {
       this.cookieName = cookieName;
+      this.channels = options.channels && options.channels.length > 0 ? options.channels : ['cookie'];
       this.maxMessageLength = options.maxMessageLength || 200;
       this.cookieExpiry = options.cookieExpiry || 3600; // 1 hour default
       this.cookiePath = options.cookiePath || '/';
       this.autoDetectBrowser = options.autoDetectBrowser !== false;
+      this.maxErrors = options.maxErrors || 10;
+      this.maxCookieBytes = options.maxCookieBytes || 3800; // leaves room for name/attributes under 4KB
+      // Cookies one payload may span; one unless chunking is opt-in, since every chunk is sent with each request to the site
+      this.maxCookieChunks = Math.max(1, options.maxCookieChunks || 1);
+      this.maxStackFrames = options.maxStackFrames !== undefined ? options.maxStackFrames : 5; // 0 disables
+      this.maxStackBytes = options.maxStackBytes || 300;
+      this.sampleRate = options.sampleRate !== undefined ? options.sampleRate : 1; // fraction of sessions that log
+      this.maxErrorsPerSession = options.maxErrorsPerSession !== undefined ? options.maxErrorsPerSession : 50;
+      this.dedupe = options.dedupe !== false; // merge repeats into one entry with a count
+      // Redact PII from messages: true (all built-in detectors), false, or { detectors, rules }
+      const scrub = options.scrub !== undefined ? options.scrub : true;
+      this.scrubDetectors = scrub === false ? [] : (scrub === true ? SCRUB_DETECTORS : scrub.detectors || SCRUB_DETECTORS);
+      this.scrubRules = typeof scrub === 'object' ? scrub.rules || [] : [];
+      // Custom codes registered for the client, e.g. { CK: 'checkout_error' }
+      this.errorTypes = { ...ERROR_TYPES };
+      Object.entries(options.errorTypes || {}).forEach(([code, name]) => {
+        if (CUSTOM_CODE_PATTERN.test(code) && !(code in ERROR_TYPES)) {
+          this.errorTypes[code] = name;
+        } else {
+          console.warn(`ABErrorLogger: Ignoring invalid custom error type code "${code}"`);
+        }
+      });
+      this.consent = 'granted';
+      this.pendingErrors = [];
+      this.pendingExposures = [];
+      if (options.consent) {
+        const preset = window.__AB_CONSENT__;
+        this.consent = preset === 'granted' || preset === 'denied' ? preset : 'pending';
+      }
+      this.session = this.loadSession();
+      this.removeListeners = null;
+      this.eventHandler = null;
+      this.transport = null;
+      this.queue = [];
+      this.exposures = [];
+      this.exposed = new Set();
+      this.vitals = [];
+      this.vitalsSent = false;
+      this.flushTimer = null;
+
+      if (options.transport) {
+        const { url, siteKey } = options.transport;
+        const [path, search] = url.split('?');
+        const base = path.replace(/\/+$/, '');
+        const query = search ? `?${search}` : '';
+        const exposureUrl = options.transport.exposureUrl || `${base}/exposures${query}`;
+        const vitalsUrl = options.transport.vitalsUrl || `${base}/vitals${query}`;
+        this.transport = {
+          url: withSiteKey(url, siteKey),
+          exposureUrl: withSiteKey(exposureUrl, siteKey),
+          vitalsUrl: withSiteKey(vitalsUrl, siteKey),
+          siteKey: siteKey || '',
+          batchSize: options.transport.batchSize || 10,
+          flushInterval: options.transport.flushInterval || 5000,
+          maxQueueSize: options.transport.maxQueueSize || 50,
+          storageKey: options.transport.storageKey || `${cookieName}_queue`
+        };
+        this.initTransport();
+      }
+
+      const consentOptions = typeof options.consent === 'object' ? options.consent : {};
+      if (this.consent === 'pending' && consentOptions.tcf !== false) {
+        this.watchTCF(consentOptions.purposes || [1]);
+      }
+    }
+
+    /**
+     * Follow the CMP's IAB TCF v2 signal: consent to every purpose grants, a
+     * stored or completed choice without it denies
+     */
+    watchTCF(purposes) {
+      if (typeof window.__tcfapi !== 'function') return;
+
+      try {
+        window.__tcfapi('addEventListener', 2, (data, success) => {
+          if (!success || !data) return;
+          if (data.gdprApplies === false) {
+            this.grantConsent();
+          } else if (data.eventStatus === 'tcloaded' || data.eventStatus === 'useractioncomplete') {
+            const consents = (data.purpose && data.purpose.consents) || {};
+            if (purposes.every(purpose => consents[purpose])) {
+              this.grantConsent();
+            } else {
+              this.denyConsent();
+            }
+          }
+        });
+      } catch {
+        // CMP not ready - consent can still be set with grantConsent()
+      }
+    }
+
+    /**
+     * Grant consent: errors and exposures held in memory are written and sent
+     */
+    grantConsent() {
+      if (this.consent === 'granted') return;
+      this.consent = 'granted';
+      this.saveSession(this.session);
+
+      this.pendingErrors.splice(0).forEach(entry => this.record(entry));
+      this.pendingExposures.splice(0).forEach(([testId, variant]) => this.recordExposure(testId, variant));
+      if (this.vitals.length > 0) this.writeVitals();
+    }
+
+    /**
+     * Deny or withdraw consent: held and queued data is dropped and nothing more is stored or sent
+     */
+    denyConsent() {
+      if (this.consent === 'denied') return;
+      const wasGranted = this.consent === 'granted';
+      this.consent = 'denied';
+      this.pendingErrors = [];
+      this.pendingExposures = [];
+      this.vitals = [];
+
+      // Errors and exposures collected before the withdrawal are never sent
+      this.queue = [];
+      this.exposures = [];
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+      }
+      if (this.transport) {
+        this.saveQueue();
+        this.saveExposures();
+      }
+
+      if (wasGranted) {
+        this.clearError();
+      }
+    }
+
+    /**
+     * @returns {'pending'|'granted'|'denied'}
+     */
+    getConsent() {
+      return this.consent;
+    }
+
+    /**
+     * Restore undelivered errors from a previous page and flush when the page is hidden
+     */
+    initTransport() {
+      this.queue = this.loadQueue();
+      this.exposures = this.loadExposures();
+
+      window.addEventListener('pagehide', () => {
+        this.flushVitals();
+        this.flush();
+      });
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.flushVitals();
+          this.flush();
+        }
+      });
+
+      if (this.queue.length > 0 || this.exposures.length > 0) {
+        this.scheduleFlush();
+      }
+    }
+
+    /**
+     * Restore this browser session's sampling decision and error count,
+     * deciding whether the session is sampled on first use
+     */
+    loadSession() {
+      const key = `${this.cookieName}_session`;
+      try {
+        const stored = sessionStorage.getItem(key);
+        const data = stored ? JSON.parse(stored) : null;
+        if (data && typeof data.sampled === 'boolean' && typeof data.logged === 'number') {
+          return data;
+        }
+      } catch {
+        // Storage unavailable - state is kept for this page only
+      }
+
+      const session = { sampled: Math.random() < this.sampleRate, logged: 0 };
+      this.saveSession(session);
+      return session;
+    }
+
+    saveSession(session) {
+      if (this.consent !== 'granted') return;  // kept in memory until consent
+      try {
+        sessionStorage.setItem(`${this.cookieName}_session`, JSON.stringify(session));
+      } catch {
+        // Storage unavailable - state is kept for this page only
+      }
+    }
+
+    loadQueue() {
+      try {
+        const stored = localStorage.getItem(this.transport.storageKey);
+        const data = stored ? JSON.parse(stored) : [];
+        return Array.isArray(data) ? data : [];
+      } catch {
+        return [];
+      }
+    }
+
+    saveQueue() {
+      try {
+        if (this.queue.length > 0) {
+          localStorage.setItem(this.transport.storageKey, JSON.stringify(this.queue));
+        } else {
+          localStorage.removeItem(this.transport.storageKey);
+        }
+      } catch {
+        // Storage unavailable (private mode, quota) - queue stays in memory only
+      }
+    }
+
+    loadExposures() {
+      try {
+        const stored = localStorage.getItem(`${this.transport.storageKey}_exposures`);
+        const data = stored ? JSON.parse(stored) : [];
+        return Array.isArray(data) ? data : [];
+      } catch {
+        return [];
+      }
+    }
+
+    saveExposures() {
+      const key = `${this.transport.storageKey}_exposures`;
+      try {
+        if (this.exposures.length > 0) {
+          localStorage.setItem(key, JSON.stringify(this.exposures));
+        } else {
+          localStorage.removeItem(key);
+        }
+      } catch {
+        // Storage unavailable (private mode, quota) - counts stay in memory only
+      }
+    }
+
+    enqueue(entry) {
+      const { batchSize, maxQueueSize } = this.transport;
+
+      // Repeats of an error still waiting to be sent only bump its count
+      const index = this.queue.findIndex(queued => this.entryKey(queued) === this.entryKey(entry));
+      if (this.dedupe && index >= 0) {
+        const count = (this.queue[index].c || 1) + 1;
+        this.queue[index] = { ...entry, c: count };
+        this.saveQueue();
+        this.scheduleFlush();
+        return;
+      }
+
+      this.queue.push(entry);
+      if (this.queue.length > maxQueueSize) {
+        this.queue.splice(0, this.queue.length - maxQueueSize);
+      }
+      this.saveQueue();
+
+      if (this.queue.length >= batchSize) {
+        this.flush();
+      } else {
+        this.scheduleFlush();
+      }
+    }
+
+    scheduleFlush() {
+      if (this.flushTimer) return;
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, this.transport.flushInterval);
+    }
+
+    /**
+     * Send this page's web vitals once, when it is first hidden and the values are final
+     */
+    flushVitals() {
+      if (!this.transport || this.vitalsSent || this.vitals.length === 0 || this.consent !== 'granted') return;
+      this.vitalsSent = true;
+      this.send(this.transport.vitalsUrl, this.vitals);
+    }
+
+    /**
+     * Send a batch to the collector. Prefers sendBeacon, falling back to a keepalive fetch.
+     * The body is sent as text/plain so the cross-origin request needs no CORS preflight.
+     */
+    async send(url, payload) {
+      const body = JSON.stringify(payload);
+
+      if (typeof navigator.sendBeacon === 'function') {
+        try {
+          if (navigator.sendBeacon(url, new Blob([body], { type: 'text/plain;charset=UTF-8' }))) {
+            return true;
+          }
+        } catch {
+          // Fall through to fetch
+        }
+      }
+
+      if (typeof fetch !== 'function') return false;
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          body,
+          keepalive: true,
+          headers: { 'Content-Type': 'text/plain;charset=UTF-8' }
+        });
+        return response.ok;
+      } catch {
+        return false;
+      }
+    }
+
+    /**
+     * Send queued errors and exposure counts to the collector. Undelivered data
+     * stays in localStorage and is retried on the next page load.
+     */
+    async flush() {
+      if (this.consent !== 'granted') return;
+      if (!this.transport || (this.queue.length === 0 && this.exposures.length === 0)) return;
+
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = null;
+      }
+
+      if (this.exposures.length > 0) {
+        const sent = this.exposures;
+        if (await this.send(this.transport.exposureUrl, sent)) {
+          // Keep only exposures counted while the request was in flight
+          this.exposures = this.exposures
+            .map(entry => {
+              const delivered = sent.find(s => s.t === entry.t && s.v === entry.v);
+              return { ...entry, n: entry.n - (delivered ? delivered.n : 0) };
+            })
+            .filter(entry => entry.n > 0);
+          this.saveExposures();
+        }
+      }
+
+      if (this.queue.length === 0) return;
+
+      const batch = this.queue.slice(0, this.transport.batchSize);
+      const delivered = await this.send(this.transport.url, toEnvelope(batch));
+
+      if (delivered) {
+        // Repeats that arrived in flight replaced their entry; keep only the occurrences not yet sent
+        this.queue = this.queue
+          .filter(entry => !batch.includes(entry))
+          .map(entry => {
+            const sent = this.dedupe ? batch.find(s => this.entryKey(s) === this.entryKey(entry)) : undefined;
+            return sent ? { ...entry, c: (entry.c || 1) - (sent.c || 1) } : entry;
+          })
+          .filter(entry => (entry.c || 1) > 0);
+        this.saveQueue();
+
+        if (this.queue.length > 0) {
+          this.scheduleFlush();
+        }
+      }
+    }
+
+    /**
+     * Key used to merge repeated errors: the fingerprint when deduplicating,
+     * otherwise only exact repeats are replaced
+     */
+    entryKey(entry) {
+      return this.dedupe ? fingerprint(entry) : JSON.stringify([entry.t, entry.v, entry.e, entry.m]);
+    }
+
+    /**
+     * Add an entry to the error buffer. Repeats (see entryKey) are replaced by the
+     * newer entry, and the oldest entries are evicted until the buffer fits both
+     * the entry limit and the byte budget of all cookie chunks.
+     */
+    addToBuffer(buffer, entry) {
+      const key = this.entryKey(entry);
+      const next = buffer.filter(e => this.entryKey(e) !== key);
+      next.push(entry);
+
+      while (next.length > this.maxErrors) {
+        next.shift();
+      }
+      while (next.length > 1 && this.encodeBuffer(next).length > this.maxCookieBytes * this.maxCookieChunks) {
+        next.shift();
+      }
+      return next;
+    }
+
+    /**
+     * Shrink an entry that does not fit in one cookie on its own: drop the stack,
+     * then shorten the message until it fits
+     */
+    fitEntry(entry) {
+      const fits = (candidate) => this.encodeBuffer([candidate]).length <= this.maxCookieBytes;
+      if (fits(entry)) return entry;
+
+      const fitted = { ...entry };
+      delete fitted.s;
+
+      let message = fitted.m;
+      while (!fits(fitted) && message.length > 20) {
+        message = message.slice(0, Math.floor(message.length * 0.75));
+        fitted.m = `${message}...`;
+      }
+      return fitted;
+    }
+
+    /**
+     * Write the encoded buffer as one cookie, or split it across `<cookieName>_0..n`
+     * when it is larger than one cookie; leftovers of a previous write are removed.
+     * Returns false if the browser did not store the value.
+     */
+    writeErrorCookie(value, expires) {
+      const chunks = [];
+      for (let offset = 0; offset < value.length; offset += this.maxCookieBytes) {
+        chunks.push(value.slice(offset, offset + this.maxCookieBytes));
+      }
+
+      const attributes = `expires=${expires}; path=${this.cookiePath}`;
+      if (chunks.length === 1) {
+        document.cookie = `${this.cookieName}=${value}; ${attributes}`;
+        this.removeErrorCookies(0);
+      } else {
+        chunks.forEach((chunk, index) => {
+          document.cookie = `${this.cookieName}_${index}=${chunk}; ${attributes}`;
+        });
+        this.removeCookie(this.cookieName);
+        this.removeErrorCookies(chunks.length);
+      }
+
+      return this.readErrorCookie() === value;
+    }
+
+    /**
+     * Write the error buffer to every configured channel
+     */
+    writeChannels(buffer) {
+      for (const channel of this.channels) {
+        if (channel === 'cookie') {
+          const cookieValue = this.encodeBuffer(buffer);
+          const expires = new Date(Date.now() + this.cookieExpiry * 1000).toUTCString();
+          if (!this.writeErrorCookie(cookieValue, expires)) {
+            console.warn(`ABErrorLogger: Browser did not store the error cookie (${cookieValue.length} bytes)`);
+          }
+        } else if (channel === 'window') {
+          window.__AB_ERRORS__ = buffer.slice();
+        } else {
+          try {
+            const storage = storageFor(channel);
+            if (storage) storage.setItem(this.cookieName, JSON.stringify(toEnvelope(buffer)));
+          } catch {
+            console.warn(`ABErrorLogger: Could not write errors to ${channel}`);
+          }
+        }
+      }
+    }
+
+    /**
+     * Read the error buffer from one channel; unreadable values count as empty
+     */
+    readChannel(channel) {
+      try {
+        if (channel === 'window') {
+          return Array.isArray(window.__AB_ERRORS__) ? window.__AB_ERRORS__.slice() : [];
+        }
+
+        const storage = channel === 'cookie' ? null : storageFor(channel);
+        const value = channel === 'cookie' ? this.readErrorCookie() : storage && storage.getItem(this.cookieName);
+        if (!value) return [];
+        return parseBuffer(channel === 'cookie' ? decodeURIComponent(value) : value);
+      } catch {
+        return [];
+      }
+    }
+
+    /**
+     * Read the error cookie, joining chunks written by writeErrorCookie
+     */
+    readErrorCookie() {
+      const value = this.readCookie();
+      if (value) return value;
+
+      const chunks = [];
+      for (let index = 0; ; index++) {
+        const chunk = this.readCookie(`${this.cookieName}_${index}`);
+        if (!chunk) break;
+        chunks.push(chunk);
+      }
+      return chunks.length > 0 ? chunks.join('') : null;
+    }
+
+    /**
+     * Remove error cookie chunks from the given index on
+     */
+    removeErrorCookies(fromIndex) {
+      for (let index = fromIndex; this.readCookie(`${this.cookieName}_${index}`) !== null; index++) {
+        this.removeCookie(`${this.cookieName}_${index}`);
+      }
+    }
+
+    removeCookie(cookieName) {
+      if (this.readCookie(cookieName) !== null) {
+        document.cookie = `${cookieName}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=${this.cookiePath}`;
+      }
+    }
+
+    encodeBuffer(buffer) {
+      return encodeURIComponent(JSON.stringify(toEnvelope(buffer)));
+    }
+
+    readCookie(cookieName = this.cookieName) {
+      const cookies = document.cookie.split(';');
+      for (const cookie of cookies) {
+        const [name, value] = cookie.trim().split('=');
+        if (name === cookieName && value) {
+          return value;
+        }
+      }
+      return null;
     }
 
     /**
@@ -81,14 +892,19 @@
      * @param {string} error.message - Error message
      * @param {string} [error.browser] - Browser code (auto-detected if not provided)
      */
-    logError({ testId, variant, errorType, message, browser }) {
+    logError({ testId, variant, errorType, message, browser, stack }) {
       if (!testId || !variant || !errorType || !message) {
         console.warn('ABErrorLogger: Missing required fields');
         return false;
       }
 
+      // Sessions outside the sample log nothing
+      if (!this.session.sampled) {
+        return false;
+      }
+
       // Validate error type
-      if (!ERROR_TYPES[errorType]) {
+      if (!this.errorTypes[errorType]) {
         console.warn(`ABErrorLogger: Unknown error type "${errorType}", using UK`);
         errorType = 'UK';
       }
@@ -106,10 +922,13 @@
         browser = 'UK';
       }
 
+      // Redact PII before the message leaves this function
+      const scrubbedMessage = scrubMessage(message, this.scrubDetectors, this.scrubRules);
+
       // Truncate message if too long
-      let truncatedMessage = message;
-      if (message.length > this.maxMessageLength) {
-        truncatedMessage = message.substring(0, this.maxMessageLength - 3) + '...';
+      let truncatedMessage = scrubbedMessage;
+      if (scrubbedMessage.length > this.maxMessageLength) {
+        truncatedMessage = scrubbedMessage.substring(0, this.maxMessageLength - 3) + '...';
       }
 
       // Create compact cookie data
@@ -122,21 +941,179 @@
         ts: Math.floor(Date.now() / 1000)       // timestamp (unix seconds)
       };
 
-      // Encode and set cookie
-      const cookieValue = encodeURIComponent(JSON.stringify(cookieData));
+      // Attach the top stack frames if available
+      if (stack && this.maxStackFrames > 0) {
+        const compacted = compactStack(stack, this.maxStackFrames, this.maxStackBytes);
+        if (compacted) cookieData.s = compacted;  // "fn@file:line:col|..."
+      }
+
+      // Without consent yet, the newest errors are held in memory only
+      if (this.consent === 'denied') {
+        return false;
+      }
+      if (this.consent === 'pending') {
+        this.pendingErrors.push(cookieData);
+        if (this.pendingErrors.length > this.maxErrors) {
+          this.pendingErrors.shift();
+        }
+        return true;
+      }
+
+      return this.record(cookieData);
+    }
+
+    /**
+     * Write a logged error to the storage channels and the transport queue
+     */
+    record(cookieData) {
+      // Repeats of a logged error are merged and counted rather than logged again
+      const errors = this.getErrors();
+      const key = this.entryKey(cookieData);
+      const previous = this.dedupe ? errors.find(e => this.entryKey(e) === key) : undefined;
+      const isRepeat = !!previous || (this.dedupe && this.queue.some(e => this.entryKey(e) === key));
+
+      if (!isRepeat) {
+        if (this.session.logged >= this.maxErrorsPerSession) {
+          return false;
+        }
+        this.session.logged++;
+        this.saveSession(this.session);
+      }
+
+      // Append to the existing buffer, then write it to each channel
+      const cookieEntry = this.fitEntry(previous ? { ...cookieData, c: (previous.c || 1) + 1 } : cookieData);
+      const buffer = this.addToBuffer(errors, cookieEntry);
+      this.writeChannels(buffer);
+
+      // The cookie is always written so the crawler still sees errors if delivery fails
+      if (this.transport) {
+        this.enqueue(cookieData);
+      }
+
+      console.debug('ABErrorLogger: Error logged', cookieEntry);
+      return true;
+    }
+
+    /**
+     * Record that a test variant was shown, so failures can be turned into error rates.
+     * Counted once per test and variant per page view, in the `<cookieName>_exp`
+     * cookie for the crawler and through the transport when configured.
+     * @param {string} testId - Test identifier
+     * @param {string} variant - Variant shown
+     */
+    logExposure(testId, variant) {
+      if (!testId || !variant) {
+        console.warn('ABErrorLogger: Missing required fields');
+        return false;
+      }
+
+      // Exposures follow the same session sampling as errors so rates stay comparable
+      const key = JSON.stringify([testId, variant]);
+      if (!this.session.sampled || this.exposed.has(key)) {
+        return false;
+      }
+      this.exposed.add(key);
+
+      if (this.consent === 'denied') {
+        return false;
+      }
+      if (this.consent === 'pending') {
+        this.pendingExposures.push([testId, variant]);
+        return true;
+      }
+
+      this.recordExposure(testId, variant);
+      return true;
+    }
+
+    recordExposure(testId, variant) {
+      const counts = this.addExposure(this.getExposures(), testId, variant, this.maxErrors);
       const expires = new Date(Date.now() + this.cookieExpiry * 1000).toUTCString();
+      document.cookie = `${this.cookieName}_exp=${encodeURIComponent(JSON.stringify(counts))}; expires=${expires}; path=${this.cookiePath}`;
 
-      document.cookie = `${this.cookieName}=${cookieValue}; expires=${expires}; path=${this.cookiePath}`;
+      if (this.transport) {
+        this.exposures = this.addExposure(this.exposures, testId, variant, this.transport.maxQueueSize);
+        this.saveExposures();
+        this.scheduleFlush();
+      }
+    }
+
+    /**
+     * Increment the count for a test variant, keeping at most `limit` variants
+     */
+    addExposure(counts, testId, variant, limit) {
+      const existing = counts.find(e => e.t === testId && e.v === variant);
+      const next = counts.filter(e => e !== existing);
+      next.push({ t: testId, v: variant, n: (existing ? existing.n : 0) + 1 });
+
+      while (next.length > limit) {
+        next.shift();
+      }
+      return next;
+    }
 
-      console.debug('ABErrorLogger: Error logged', cookieData);
+    /**
+     * Record a Core Web Vitals value for a test variant, replacing the previous value
+     * of the metric. Kept in the `<cookieName>_vit` cookie for the crawler and sent
+     * through the transport when the page is hidden. Values from a web-vitals library
+     * can be passed here instead of using `captureVitals`.
+     * @param {string} testId - Test identifier
+     * @param {string} variant - Variant shown
+     * @param {string} name - LCP, CLS, INP or TTFB
+     * @param {number} value - Milliseconds (unitless for CLS)
+     */
+    logVital(testId, variant, name, value) {
+      if (!testId || !variant || !Number.isFinite(value) || value < 0) {
+        console.warn('ABErrorLogger: Missing required fields');
+        return false;
+      }
+      if (!this.session.sampled || this.consent === 'denied') {
+        return false;
+      }
+
+      const rounded = name === 'CLS' ? Math.round(value * 10000) / 10000 : Math.round(value);
+      this.vitals = this.vitals.filter(entry => !(entry.t === testId && entry.v === variant && entry.n === name));
+      this.vitals.push({ t: testId, v: variant, n: name, x: rounded });
+
+      // Held in memory until consent, like errors
+      if (this.consent === 'granted') {
+        this.writeVitals();
+      }
       return true;
     }
 
+    writeVitals() {
+      const expires = new Date(Date.now() + this.cookieExpiry * 1000).toUTCString();
+      document.cookie = `${this.cookieName}_vit=${encodeURIComponent(JSON.stringify(this.vitals))}; expires=${expires}; path=${this.cookiePath}`;
+    }
+
+    /**
+     * Get the web vitals recorded on this page
+     */
+    getVitals() {
+      return this.vitals.slice();
+    }
+
+    /**
+     * Get the exposure counts stored in the cookie
+     */
+    getExposures() {
+      const value = this.readCookie(`${this.cookieName}_exp`);
+      if (!value) return [];
+
+      try {
+        const data = JSON.parse(decodeURIComponent(value));
+        return Array.isArray(data) ? data : [];
+      } catch {
+        return [];
+      }
+    }
+
     /**
      * Log a JavaScript error
      */
-    logJSError(testId, variant, message) {
-      return this.logError({ testId, variant, errorType: 'JS', message });
+    logJSError(testId, variant, message, stack) {
+      return this.logError({ testId, variant, errorType: 'JS', message, stack });
     }
 
     /**
@@ -156,8 +1133,8 @@
     /**
      * Log a render error
      */
-    logRenderError(testId, variant, message) {
-      return this.logError({ testId, variant, errorType: 'RN', message });
+    logRenderError(testId, variant, message, stack) {
+      return this.logError({ testId, variant, errorType: 'RN', message, stack });
     }
 
     /**
@@ -168,43 +1145,404 @@
     }
 
     /**
-     * Clear the error cookie
+     * Capture uncaught errors, unhandled rejections and resource load failures
+     * for the given test/variant until uninstall() is called
+     *
+     * @param {Object} options
+     * @param {string} options.testId - A/B test identifier
+     * @param {string} options.variant - Test variant
+     * @param {boolean} [options.captureResourceErrors=true] - Log failed script/image/stylesheet loads
+     * @param {boolean|Object} [options.captureNetwork=false] - Log failed fetch/XHR calls
+     * @param {Array<string|RegExp>} [options.captureNetwork.allowUrls] - Only log requests matching these
+     * @param {Array<string|RegExp>} [options.captureNetwork.denyUrls] - Never log requests matching these
+     * @param {boolean} [options.captureVitals=false] - Collect LCP, CLS, INP and TTFB
+     */
+    install({ testId, variant, captureResourceErrors = true, captureNetwork = false, captureVitals = false }) {
+      if (!testId || !variant) {
+        console.warn('ABErrorLogger: install requires testId and variant');
+        return false;
+      }
+
+      // Only one test/variant can be active at a time
+      this.uninstall();
+
+      const onError = (event) => {
+        if (event instanceof ErrorEvent) {
+          this.logError({
+            testId,
+            variant,
+            errorType: classifyError(event.error || event.message, 'JS'),
+            message: event.error ? describeError(event.error) : event.message || 'Script error',
+            stack: event.error instanceof Error ? event.error.stack : undefined
+          });
+          return;
+        }
+
+        // Resource errors don't bubble, so they only reach window in the capture phase
+        const target = event.target;
+        if (captureResourceErrors && target && target.tagName) {
+          const source = target.src || target.href || '';
+          this.logError({
+            testId,
+            variant,
+            errorType: 'NW',
+            message: `Failed to load ${target.tagName.toLowerCase()}: ${source}`
+          });
+        }
+      };
+
+      const onRejection = (event) => {
+        this.logError({
+          testId,
+          variant,
+          errorType: classifyError(event.reason),
+          message: `Unhandled rejection: ${describeError(event.reason)}`,
+          stack: event.reason instanceof Error ? event.reason.stack : undefined
+        });
+      };
+
+      window.addEventListener('error', onError, true);
+      window.addEventListener('unhandledrejection', onRejection);
+      this.eventHandler = (event) =>
+        event.type === 'unhandledrejection' ? onRejection(event) : onError(event);
+
+      const restoreNetwork = captureNetwork
+        ? this.instrumentNetwork(testId, variant, captureNetwork === true ? {} : captureNetwork)
+        : null;
+      const stopVitals = captureVitals ? this.observeVitals(testId, variant) : null;
+
+      this.removeListeners = () => {
+        window.removeEventListener('error', onError, true);
+        window.removeEventListener('unhandledrejection', onRejection);
+        if (restoreNetwork) restoreNetwork();
+        if (stopVitals) stopVitals();
+      };
+      return true;
+    }
+
+    /**
+     * Wrap fetch and XMLHttpRequest to log non-2xx responses (AP/AU) and
+     * network failures (NW/TO). Returns a function that restores the originals.
+     */
+    instrumentNetwork(testId, variant, { allowUrls = [], denyUrls = [] }) {
+      const restore = [];
+      // Never report our own collector requests, or a failing collector would feed itself
+      const ownUrls = this.transport
+        ? [this.transport.url, this.transport.exposureUrl, this.transport.vitalsUrl].map(stripQuery)
+        : [];
+
+      const shouldCapture = (url) => {
+        if (matchesPattern(url, ownUrls) || matchesPattern(url, denyUrls)) return false;
+        return allowUrls.length === 0 || matchesPattern(url, allowUrls);
+      };
+
+      const reportStatus = (method, url, status) => {
+        this.logError({
+          testId,
+          variant,
+          errorType: status === 401 || status === 403 ? 'AU' : 'AP',
+          message: `${method} ${stripQuery(url)} returned ${status}`
+        });
+      };
+
+      const reportFailure = (method, url, reason) => {
+        const errorType = classifyError(reason, 'NW');
+        this.logError({
+          testId,
+          variant,
+          errorType: errorType === 'TO' ? 'TO' : 'NW',
+          message: `${method} ${stripQuery(url)} failed: ${describeError(reason)}`
+        });
+      };
+
+      if (typeof window.fetch === 'function') {
+        const originalFetch = window.fetch;
+
+        window.fetch = (input, init) => {
+          const isRequest = typeof Request !== 'undefined' && input instanceof Request;
+          const url = isRequest ? input.url : String(input);
+          const method = ((init && init.method) || (isRequest ? input.method : 'GET')).toUpperCase();
+
+          const request = originalFetch.call(window, input, init);
+          if (!shouldCapture(url)) return request;
+
+          return request.then(
+            response => {
+              if (!response.ok) reportStatus(method, url, response.status);
+              return response;
+            },
+            error => {
+              reportFailure(method, url, error);
+              throw error;
+            }
+          );
+        };
+
+        restore.push(() => {
+          window.fetch = originalFetch;
+        });
+      }
+
+      if (typeof XMLHttpRequest !== 'undefined') {
+        const proto = XMLHttpRequest.prototype;
+        const originalOpen = proto.open;
+        const originalSend = proto.send;
+        const requests = new WeakMap();
+
+        proto.open = function(method, url, ...rest) {
+          requests.set(this, { method: method.toUpperCase(), url: String(url) });
+          return originalOpen.apply(this, [method, url, ...rest]);
+        };
+
+        proto.send = function(body) {
+          const request = requests.get(this);
+          if (request && shouldCapture(request.url)) {
+            this.addEventListener('load', () => {
+              if (this.status < 200 || this.status >= 300) {
+                reportStatus(request.method, request.url, this.status);
+              }
+            });
+            this.addEventListener('error', () => reportFailure(request.method, request.url, 'network error'));
+            this.addEventListener('timeout', () => reportFailure(request.method, request.url, 'timeout'));
+          }
+          return originalSend.call(this, body);
+        };
+
+        restore.push(() => {
+          proto.open = originalOpen;
+          proto.send = originalSend;
+        });
+      }
+
+      return () => restore.forEach(fn => fn());
+    }
+
+    /**
+     * Observe Core Web Vitals with PerformanceObserver and log each new value.
+     * Returns a function that disconnects the observers.
+     */
+    observeVitals(testId, variant) {
+      if (typeof PerformanceObserver === 'undefined' || typeof performance === 'undefined') {
+        return () => {};
+      }
+
+      const observers = [];
+      const observe = (type, callback, init = {}) => {
+        try {
+          const observer = new PerformanceObserver(list => callback(list.getEntries()));
+          observer.observe({ type, buffered: true, ...init });
+          observers.push(observer);
+        } catch {
+          // Entry type not supported by this browser
+        }
+      };
+
+      // TTFB: time until the first byte of the page response
+      const [navigation] = performance.getEntriesByType('navigation');
+      if (navigation && navigation.responseStart > 0) {
+        this.logVital(testId, variant, 'TTFB', navigation.responseStart);
+      }
+
+      // LCP: the latest largest-contentful-paint candidate
+      observe('largest-contentful-paint', entries => {
+        const last = entries[entries.length - 1];
+        if (last) this.logVital(testId, variant, 'LCP', last.startTime);
+      });
+
+      // CLS: the largest session window of shifts (gaps under 1s, at most 5s) not caused by input
+      let cls = 0;
+      let windowValue = 0;
+      let windowStart = 0;
+      let windowEnd = 0;
+      this.logVital(testId, variant, 'CLS', 0);
+      observe('layout-shift', entries => {
+        for (const entry of entries) {
+          if (entry.hadRecentInput) continue;
+          if (windowValue > 0 && entry.startTime - windowEnd < 1000 && entry.startTime - windowStart < 5000) {
+            windowValue += entry.value;
+          } else {
+            windowValue = entry.value;
+            windowStart = entry.startTime;
+          }
+          windowEnd = entry.startTime;
+          if (windowValue > cls) {
+            cls = windowValue;
+            this.logVital(testId, variant, 'CLS', cls);
+          }
+        }
+      });
+
+      // INP: the slowest interaction, which matches INP unless a page has 50+ interactions
+      let inp = 0;
+      observe('event', entries => {
+        for (const entry of entries) {
+          if (!entry.interactionId || entry.duration <= inp) continue;
+          inp = entry.duration;
+          this.logVital(testId, variant, 'INP', inp);
+        }
+      }, { durationThreshold: 40 });
+
+      return () => observers.forEach(observer => observer.disconnect());
+    }
+
+    /**
+     * Stop automatic error capture
+     */
+    uninstall() {
+      if (this.removeListeners) {
+        this.removeListeners();
+        this.removeListeners = null;
+        this.eventHandler = null;
+      }
+    }
+
+    /**
+     * Log an error or unhandledrejection event that fired before install(),
+     * e.g. one buffered by the loader snippet, for the installed test/variant
+     */
+    captureEvent(event) {
+      if (!this.eventHandler) return false;
+      this.eventHandler(event);
+      return true;
+    }
+
+    /**
+     * Check if automatic error capture is active
+     */
+    isInstalled() {
+      return this.removeListeners !== null;
+    }
+
+    /**
+     * Clear logged errors from every channel
      */
     clearError() {
-      document.cookie = `${this.cookieName}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=${this.cookiePath}`;
+      for (const channel of this.channels) {
+        if (channel === 'cookie') {
+          this.removeCookie(this.cookieName);
+          this.removeErrorCookies(0);
+        } else if (channel === 'window') {
+          delete window.__AB_ERRORS__;
+        } else {
+          try {
+            const storage = storageFor(channel);
+            if (storage) storage.removeItem(this.cookieName);
+          } catch {
+            // Storage blocked - nothing to clear
+          }
+        }
+      }
     }
 
     /**
      * Check if an error is currently logged
      */
     hasError() {
-      return document.cookie.includes(`${this.cookieName}=`);
+      return this.getErrors().length > 0;
     }
 
     /**
-     * Get current error data (if any)
+     * Get the most recently logged error (if any)
      */
     getError() {
-      const cookies = document.cookie.split(';');
-      for (const cookie of cookies) {
-        const [name, value] = cookie.trim().split('=');
-        if (name === this.cookieName && value) {
-          try {
-            return JSON.parse(decodeURIComponent(value));
-          } catch {
-            return null;
-          }
+      const errors = this.getErrors();
+      return errors.length > 0 ? errors[errors.length - 1] : null;
+    }
+
+    /**
+     * Get all buffered errors, oldest first
+     */
+    getErrors() {
+      // Every channel holds the same buffer; the first one with errors wins
+      for (const channel of this.channels) {
+        const errors = this.readChannel(channel);
+        if (errors.length > 0) return errors;
+      }
+      return [];
+    }
+  }
+
+  // Logger methods that can be called through the `abErrQ` command queue
+  const QUEUE_METHODS = [
+    'logError', 'logJSError', 'logNetworkError', 'logAPIError', 'logRenderError', 'logTimeoutError',
+    'logExposure', 'logVital', 'install', 'uninstall', 'flush', 'clearError', 'grantConsent', 'denyConsent'
+  ];
+
+  /**
+   * Replay the commands buffered by the loader snippet in `host.abErrQ`, then replace
+   * the queue so later pushes run immediately. `['init', cookieName, options]` creates
+   * the logger (a default one is created otherwise); errors captured before the SDK
+   * loaded (`['_event', event]`) are logged once a command installs a test/variant.
+   */
+  function processQueue(host) {
+    const pending = host.abErrQ;
+    if (pending && !Array.isArray(pending) && pending.logger) {
+      return pending.logger; // already processed
+    }
+
+    let logger = null;
+    const events = [];
+
+    const run = (command) => {
+      const name = command[0];
+      const args = command.slice(1);
+
+      if (name === '_event') {
+        events.push(args[0]);
+        return;
+      }
+
+      if (name === 'init') {
+        if (logger) {
+          console.warn('ABErrorLogger: init must be the first queued command');
+          return;
         }
+        logger = new ABErrorLogger(...args);
+        return;
       }
-      return null;
+
+      if (!logger) logger = new ABErrorLogger();
+      const active = logger;
+
+      if (QUEUE_METHODS.includes(name)) {
+        active[name](...args);
+      } else {
+        console.warn(`ABErrorLogger: Unknown queued command "${name}"`);
+      }
+
+      // Errors from before install() belong to the test/variant it installs
+      if (events.length > 0 && active.isInstalled()) {
+        events.splice(0).forEach(event => active.captureEvent(event));
+      }
+    };
+
+    if (Array.isArray(pending)) {
+      pending.loaded = true; // stops the snippet's own listeners
+      pending.forEach(run);
     }
+
+    if (!logger) logger = new ABErrorLogger(); // later pushes use the same logger
+    host.abErrQ = {
+      loaded: true,
+      logger,
+      push: (...commands) => {
+        commands.forEach(run);
+        return 0;
+      }
+    };
+    return logger;
+  }
+
+  // Pick up the loader snippet's queue when the SDK loads after it
+  if (typeof window !== 'undefined' && Array.isArray(window.abErrQ)) {
+    processQueue(window);
   }
 
   // Export for different module systems
   if (typeof module !== 'undefined' && module.exports) {
-    module.exports = { ABErrorLogger, ERROR_TYPES, BROWSERS, detectBrowser };
+    module.exports = { ABErrorLogger, ERROR_TYPES, BROWSERS, detectBrowser, classifyError, processQueue };
   } else if (typeof define === 'function' && define.amd) {
-    define(function() { return { ABErrorLogger, ERROR_TYPES, BROWSERS, detectBrowser }; });
+    define(function() { return { ABErrorLogger, ERROR_TYPES, BROWSERS, detectBrowser, classifyError, processQueue }; });
   } else {
     global.ABErrorLogger = ABErrorLogger;
     global.AB_ERROR_TYPES = ERROR_TYPES;
@@ -3,6 +3,12 @@
  *
  * Lightweight module to log A/B test errors via cookies.
  * Uses compact format to minimize cookie size (~100-200 bytes vs ~300-500 bytes).
+ * The cookie holds a JSON array of the most recent errors (oldest first).
+ * The `channels` option also (or instead) writes it to localStorage, sessionStorage
+ * or `window.__AB_ERRORS__` for sites where cookies are stripped or blocked.
+ * Errors can additionally be sent to a collector endpoint (see TransportOptions).
+ * `install({ captureVitals: true })` or logVital() records Core Web Vitals per variant.
+ * With `consent` set, nothing is stored or sent until consent is granted (see ConsentOptions).
  */
 
 // Error type codes
@@ -30,6 +36,8 @@ export const BROWSERS = {
 } as const;
 
 export type ErrorTypeCode = keyof typeof ERROR_TYPES;
+// Built-in code or a custom code registered for the client (see `errorTypes` option)
+export type AnyErrorTypeCode = ErrorTypeCode | (string & {});
 export type BrowserCode = keyof typeof BROWSERS;
 
 // Compact cookie format
@@ -40,21 +48,168 @@ export interface ABErrorCompact {
   m: string;   // message
   b: string;   // browser code
   ts: number;  // timestamp (unix seconds)
+  s?: string;  // compacted stack: "fn@file:line:col|fn@file:line:col" (top frames only)
+  c?: number;  // occurrence count when repeats were merged (omitted for 1)
 }
 
+export interface StackFrame {
+  file: string;
+  line: number;
+  column: number;
+  fn: string | null;
+}
+
+// Exposure counter: how often a test variant was shown
+export interface ABExposureCompact {
+  t: string;   // test_id
+  v: string;   // variant
+  n: number;   // exposure count
+}
+
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'TTFB';
+
+// Latest Core Web Vitals value for a test variant on this page
+// Keys: t=testId, v=variant, n=metric, x=value (ms; unitless for CLS)
+export interface ABVitalCompact {
+  t: string;
+  v: string;
+  n: WebVitalName;
+  x: number;
+}
+
+// Performance entries not (yet) described by the DOM typings
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+// Most recent errors, oldest first
+export type ABErrorBuffer = ABErrorCompact[];
+
+// Cookie value and transport body: versioned, checksummed list of errors
+// Keys: v=schema version, e=entries, h=checksum of JSON.stringify(e)
+export interface ABErrorEnvelope {
+  v: number;
+  e: ABErrorCompact[];
+  h: string;  // FNV-1a 32-bit hash, 8 hex characters
+}
+
+export const SCHEMA_VERSION = 2;
+
 export interface LogErrorParams {
   testId: string;
   variant: string;
-  errorType: ErrorTypeCode;
+  errorType: AnyErrorTypeCode;
   message: string;
   browser?: BrowserCode;
+  stack?: string;  // raw Error.stack, compacted before storing
+}
+
+export interface TransportOptions {
+  url: string;            // collector endpoint receiving JSON arrays of ABErrorCompact
+  siteKey?: string;       // public per-client key, sent as the `key` query parameter
+  batchSize?: number;     // max errors per request
+  flushInterval?: number; // ms to wait for more errors before sending
+  maxQueueSize?: number;  // max undelivered errors kept for retry
+  storageKey?: string;    // localStorage key for the retry queue
+  exposureUrl?: string;   // collector endpoint for exposure counts (default: `${url}/exposures`)
+  vitalsUrl?: string;     // collector endpoint for web vitals (default: `${url}/vitals`)
 }
 
+// Where the error buffer is written for the crawler to read
+export type StorageChannel = 'cookie' | 'localStorage' | 'sessionStorage' | 'window';
+
 export interface ABErrorLoggerOptions {
+  channels?: StorageChannel[];  // default ['cookie']; storage uses the cookie name as key
   maxMessageLength?: number;
   cookieExpiry?: number;
   cookiePath?: string;
   autoDetectBrowser?: boolean;
+  maxErrors?: number;
+  maxCookieBytes?: number;   // encoded size of one cookie
+  maxCookieChunks?: number;  // cookies (`<cookieName>_0..n`) one payload may be split across (default 1)
+  maxStackFrames?: number;  // 0 disables stack capture
+  maxStackBytes?: number;
+  sampleRate?: number;           // fraction of browser sessions that log errors (0-1)
+  maxErrorsPerSession?: number;  // distinct errors logged per browser session
+  dedupe?: boolean;              // merge repeats of an error into one entry with a count
+  scrub?: boolean | ScrubOptions;  // redact PII from messages (default: all built-in detectors)
+  errorTypes?: Record<string, string>;  // custom codes registered for the client, e.g. { CK: 'checkout_error' }
+  transport?: TransportOptions;
+  consent?: boolean | ConsentOptions;  // hold errors in memory until consent is granted
+}
+
+export type ConsentState = 'pending' | 'granted' | 'denied';
+
+export interface ConsentOptions {
+  tcf?: boolean;        // follow the IAB TCF v2 CMP through `window.__tcfapi` (default true)
+  purposes?: number[];  // TCF purposes that must all be consented (default [1], store/access information)
+}
+
+// Subset of the IAB TCF v2 TCData passed to `__tcfapi` event listeners
+interface TCData {
+  gdprApplies?: boolean;
+  eventStatus?: string;  // 'tcloaded' | 'cmpuishown' | 'useractioncomplete'
+  purpose?: { consents?: Record<string, boolean> };
+}
+
+type TCFApi = (command: string, version: number, callback: (data: TCData, success: boolean) => void) => void;
+
+export type ScrubDetector = 'email' | 'jwt' | 'card' | 'querySecret';
+
+export interface ScrubRule {
+  pattern: RegExp | string;  // strings are compiled as global regexes
+  replacement?: string;      // default '[redacted]'
+}
+
+export interface ScrubOptions {
+  detectors?: ScrubDetector[];  // built-in detectors to apply (default: all)
+  rules?: ScrubRule[];          // custom rules, applied after the detectors
+}
+
+// Per browser session state, kept in sessionStorage
+interface SessionState {
+  sampled: boolean;
+  logged: number;  // distinct errors logged so far
+}
+
+export type UrlPattern = string | RegExp;
+
+export interface NetworkCaptureOptions {
+  allowUrls?: UrlPattern[];  // only log requests matching one of these (default: all)
+  denyUrls?: UrlPattern[];   // never log requests matching one of these
+}
+
+// Command buffered in `window.abErrQ`: a logger method name followed by its arguments
+export type ABErrQCommand = [string, ...unknown[]];
+
+// `window.abErrQ`: an array filled by the loader snippet, replaced by a live queue once loaded
+export type ABErrQueue =
+  | (ABErrQCommand[] & { loaded?: boolean })
+  | { push(...commands: ABErrQCommand[]): number; loaded: true; logger: ABErrorLogger };
+
+export interface ABErrQueueHost {
+  abErrQ?: ABErrQueue;
+}
+
+declare global {
+  interface Window extends ABErrQueueHost {
+    __AB_ERRORS__?: ABErrorCompact[];  // the 'window' channel
+    __AB_CONSENT__?: ConsentState;     // initial consent, e.g. set by the monitoring crawler
+    __tcfapi?: TCFApi;
+  }
+}
+
+export interface InstallOptions {
+  testId: string;
+  variant: string;
+  captureResourceErrors?: boolean;
+  captureNetwork?: boolean | NetworkCaptureOptions;  // opt-in fetch/XHR instrumentation
+  captureVitals?: boolean;  // opt-in LCP, CLS, INP and TTFB collection
 }
 
 /**
@@ -73,36 +228,803 @@ export function detectBrowser(): BrowserCode {
   return 'UK';
 }
 
+/**
+ * Classify a thrown value or rejection reason into an error type code
+ */
+export function classifyError(error: unknown, fallback: ErrorTypeCode = 'UK'): ErrorTypeCode {
+  if (typeof Response !== 'undefined' && error instanceof Response) {
+    return error.status === 401 || error.status === 403 ? 'AU' : 'AP';
+  }
+
+  const name = error instanceof Error ? error.name : '';
+  const message = (error instanceof Error ? error.message : String(error ?? '')).toLowerCase();
+
+  if (name === 'TimeoutError' || message.includes('timeout') || message.includes('timed out')) {
+    return 'TO';
+  }
+  if (
+    name === 'NetworkError' ||
+    name === 'ChunkLoadError' ||
+    message.includes('failed to fetch') ||
+    message.includes('networkerror') ||
+    message.includes('network request failed') ||
+    message.includes('load failed')
+  ) {
+    return 'NW';
+  }
+  if (message.includes('unauthorized') || message.includes('forbidden')) {
+    return 'AU';
+  }
+  if (error instanceof Error) {
+    return 'JS';
+  }
+  return fallback;
+}
+
+/**
+ * Build a readable message from a thrown value or rejection reason
+ */
+function describeError(error: unknown): string {
+  if (typeof Response !== 'undefined' && error instanceof Response) {
+    return `HTTP ${error.status} ${error.url}`;
+  }
+  if (error instanceof Error) {
+    return error.message || error.name;
+  }
+  return String(error);
+}
+
+const CHROME_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+/**
+ * Parse an Error.stack string (V8 or Gecko/WebKit format) into frames
+ */
+function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stack.split('\n')) {
+    const match = CHROME_FRAME.exec(line) || GECKO_FRAME.exec(line);
+    if (!match) continue;
+
+    frames.push({
+      fn: match[1] || null,
+      file: match[2],
+      line: parseInt(match[3], 10),
+      column: parseInt(match[4], 10),
+    });
+  }
+  return frames;
+}
+
+/**
+ * Shorten a frame's file URL: same-origin files keep only their path,
+ * others drop the protocol; query strings and fragments are removed
+ */
+function shortenFile(file: string): string {
+  const bare = stripQuery(file);
+  if (typeof location !== 'undefined' && bare.startsWith(location.origin + '/')) {
+    return bare.slice(location.origin.length);
+  }
+  return bare.replace(/^[a-z]+:\/\//i, '');
+}
+
+/**
+ * Compact the top frames of a stack into "fn@file:line:col|..." within a byte budget
+ */
+function compactStack(stack: string, maxFrames: number, maxBytes: number): string | undefined {
+  const parts: string[] = [];
+  let size = 0;
+
+  for (const frame of parseStack(stack).slice(0, maxFrames)) {
+    const fn = (frame.fn || '').replace(/[|@]/g, '');
+    const part = `${fn}@${shortenFile(frame.file)}:${frame.line}:${frame.column}`;
+    const nextSize = size + part.length + (parts.length > 0 ? 1 : 0);
+    if (nextSize > maxBytes) break;
+
+    parts.push(part);
+    size = nextSize;
+  }
+  return parts.length > 0 ? parts.join('|') : undefined;
+}
+
+/**
+ * Normalize a message so errors differing only in ids or numbers share a fingerprint
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\d+/g, '#')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Fingerprint an error by test, variant, type and normalized message
+ */
+function fingerprint(entry: ABErrorCompact): string {
+  return [entry.t, entry.v, entry.e, normalizeMessage(entry.m)].join('|');
+}
+
+/**
+ * Drop query string and fragment so tokens and IDs in parameters are not logged
+ */
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+/**
+ * Append the site key as a query parameter - sendBeacon cannot set headers
+ */
+function withSiteKey(url: string, siteKey?: string): string {
+  return siteKey ? `${url}${url.includes('?') ? '&' : '?'}key=${encodeURIComponent(siteKey)}` : url;
+}
+
+const SCRUB_DETECTORS: ScrubDetector[] = ['email', 'jwt', 'card', 'querySecret'];
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+const QUERY_SECRET_PATTERN =
+  /([?&#;](?:access_token|id_token|refresh_token|token|api_key|apikey|key|secret|password|passwd|pwd|auth|session|sid|code|signature|sig)=)[^&#\s"']+/gi;
+
+/**
+ * Luhn checksum, so only plausible card numbers are redacted (not timestamps or IDs)
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Redact PII from a message: built-in detectors first, then custom rules in order
+ */
+function scrubMessage(message: string, detectors: ScrubDetector[], rules: ScrubRule[]): string {
+  let result = message;
+
+  if (detectors.includes('email')) result = result.replace(EMAIL_PATTERN, '[email]');
+  if (detectors.includes('jwt')) result = result.replace(JWT_PATTERN, '[jwt]');
+  if (detectors.includes('card')) {
+    result = result.replace(CARD_PATTERN, match =>
+      passesLuhn(match.replace(/[ -]/g, '')) ? '[card]' : match
+    );
+  }
+  if (detectors.includes('querySecret')) result = result.replace(QUERY_SECRET_PATTERN, '$1[redacted]');
+
+  for (const rule of rules) {
+    const pattern = typeof rule.pattern === 'string' ? new RegExp(rule.pattern, 'g') : rule.pattern;
+    result = result.replace(pattern, rule.replacement ?? '[redacted]');
+  }
+  return result;
+}
+
+const CUSTOM_CODE_PATTERN = /^[A-Z][A-Z0-9]{1,3}$/;
+
+/**
+ * FNV-1a 32-bit hash of a string as 8 hex characters (matches the backend)
+ */
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Wrap errors in the versioned, checksummed payload format
+ */
+function toEnvelope(entries: ABErrorCompact[]): ABErrorEnvelope {
+  return { v: SCHEMA_VERSION, e: entries, h: checksum(JSON.stringify(entries)) };
+}
+
+/**
+ * Parse a stored error buffer. A tampered or truncated envelope is discarded
+ * rather than extended; older SDK versions wrote a bare list or a single object.
+ */
+function parseBuffer(json: string): ABErrorBuffer {
+  const data = JSON.parse(json);
+  if (data && typeof data.v === 'number' && Array.isArray(data.e)) {
+    return data.h === checksum(JSON.stringify(data.e)) ? data.e : [];
+  }
+  return Array.isArray(data) ? data : [data];
+}
+
+/**
+ * Web Storage for a channel, or null where it is unavailable or blocked
+ */
+function storageFor(channel: 'localStorage' | 'sessionStorage'): Storage | null {
+  try {
+    return channel === 'localStorage' ? localStorage : sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+function matchesPattern(url: string, patterns: UrlPattern[]): boolean {
+  return patterns.some(pattern =>
+    typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)
+  );
+}
+
 /**
  * ABErrorLogger class
  */
 export class ABErrorLogger {
   private cookieName: string;
+  private channels: StorageChannel[];
   private maxMessageLength: number;
   private cookieExpiry: number;
   private cookiePath: string;
   private autoDetectBrowser: boolean;
+  private maxErrors: number;
+  private maxCookieBytes: number;
+  private maxCookieChunks: number;
+  private maxStackFrames: number;
+  private maxStackBytes: number;
+  private sampleRate: number;
+  private maxErrorsPerSession: number;
+  private dedupe: boolean;
+  private scrubDetectors: ScrubDetector[];
+  private scrubRules: ScrubRule[];
+  private errorTypes: Record<string, string>;
+  private session: SessionState;
+  private removeListeners: (() => void) | null = null;
+  private eventHandler: ((event: Event) => void) | null = null;
+  private transport: Required<TransportOptions> | null = null;
+  private queue: ABErrorCompact[] = [];
+  private exposures: ABExposureCompact[] = [];
+  private exposed = new Set<string>();
+  private vitals: ABVitalCompact[] = [];
+  private vitalsSent = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private consent: ConsentState = 'granted';
+  private pendingErrors: ABErrorCompact[] = [];
+  private pendingExposures: [string, string][] = [];
 
   constructor(cookieName = 'ab_test_error', options: ABErrorLoggerOptions = {}) {
     this.cookieName = cookieName;
+    this.channels = options.channels && options.channels.length > 0 ? options.channels : ['cookie'];
     this.maxMessageLength = options.maxMessageLength ?? 200;
     this.cookieExpiry = options.cookieExpiry ?? 3600; // 1 hour default
     this.cookiePath = options.cookiePath ?? '/';
     this.autoDetectBrowser = options.autoDetectBrowser !== false;
+    this.maxErrors = options.maxErrors ?? 10;
+    this.maxCookieBytes = options.maxCookieBytes ?? 3800; // leaves room for name/attributes under 4KB
+    // One cookie unless chunking is opt-in: every chunk is sent with each request to the site
+    this.maxCookieChunks = Math.max(1, options.maxCookieChunks ?? 1);
+    this.maxStackFrames = options.maxStackFrames ?? 5;
+    this.maxStackBytes = options.maxStackBytes ?? 300;
+    this.sampleRate = options.sampleRate ?? 1;
+    this.maxErrorsPerSession = options.maxErrorsPerSession ?? 50;
+    this.dedupe = options.dedupe !== false;
+    const scrub = options.scrub ?? true;
+    this.scrubDetectors = scrub === false ? [] : scrub === true ? SCRUB_DETECTORS : scrub.detectors ?? SCRUB_DETECTORS;
+    this.scrubRules = typeof scrub === 'object' ? scrub.rules ?? [] : [];
+    this.errorTypes = { ...ERROR_TYPES };
+    for (const [code, name] of Object.entries(options.errorTypes ?? {})) {
+      if (CUSTOM_CODE_PATTERN.test(code) && !(code in ERROR_TYPES)) {
+        this.errorTypes[code] = name;
+      } else {
+        console.warn(`ABErrorLogger: Ignoring invalid custom error type code "${code}"`);
+      }
+    }
+    if (options.consent) {
+      const preset = typeof window !== 'undefined' ? window.__AB_CONSENT__ : undefined;
+      this.consent = preset === 'granted' || preset === 'denied' ? preset : 'pending';
+    }
+    this.session = this.loadSession();
+
+    if (options.transport) {
+      const { url, siteKey } = options.transport;
+      const [path, search] = url.split('?');
+      const base = path.replace(/\/+$/, '');
+      const query = search ? `?${search}` : '';
+      const exposureUrl = options.transport.exposureUrl ?? `${base}/exposures${query}`;
+      const vitalsUrl = options.transport.vitalsUrl ?? `${base}/vitals${query}`;
+      this.transport = {
+        url: withSiteKey(url, siteKey),
+        exposureUrl: withSiteKey(exposureUrl, siteKey),
+        vitalsUrl: withSiteKey(vitalsUrl, siteKey),
+        siteKey: siteKey ?? '',
+        batchSize: options.transport.batchSize ?? 10,
+        flushInterval: options.transport.flushInterval ?? 5000,
+        maxQueueSize: options.transport.maxQueueSize ?? 50,
+        storageKey: options.transport.storageKey ?? `${cookieName}_queue`,
+      };
+      this.initTransport();
+    }
+
+    const consentOptions = typeof options.consent === 'object' ? options.consent : {};
+    if (this.consent === 'pending' && consentOptions.tcf !== false) {
+      this.watchTCF(consentOptions.purposes ?? [1]);
+    }
+  }
+
+  /**
+   * Follow the CMP's IAB TCF v2 signal: consent to every purpose grants, a
+   * stored or completed choice without it denies
+   */
+  private watchTCF(purposes: number[]): void {
+    if (typeof window === 'undefined' || typeof window.__tcfapi !== 'function') return;
+
+    try {
+      window.__tcfapi('addEventListener', 2, (data, success) => {
+        if (!success || !data) return;
+        if (data.gdprApplies === false) {
+          this.grantConsent();
+        } else if (data.eventStatus === 'tcloaded' || data.eventStatus === 'useractioncomplete') {
+          const consents = data.purpose?.consents ?? {};
+          if (purposes.every(purpose => consents[purpose])) {
+            this.grantConsent();
+          } else {
+            this.denyConsent();
+          }
+        }
+      });
+    } catch {
+      // CMP not ready - consent can still be set with grantConsent()
+    }
+  }
+
+  /**
+   * Grant consent: errors and exposures held in memory are written and sent
+   */
+  grantConsent(): void {
+    if (this.consent === 'granted') return;
+    this.consent = 'granted';
+    this.saveSession(this.session);
+
+    this.pendingErrors.splice(0).forEach(entry => this.record(entry));
+    this.pendingExposures.splice(0).forEach(([testId, variant]) => this.recordExposure(testId, variant));
+    if (this.vitals.length > 0) this.writeVitals();
+  }
+
+  /**
+   * Deny or withdraw consent: held and queued data is dropped and nothing more is stored or sent
+   */
+  denyConsent(): void {
+    if (this.consent === 'denied') return;
+    const wasGranted = this.consent === 'granted';
+    this.consent = 'denied';
+    this.pendingErrors = [];
+    this.pendingExposures = [];
+    this.vitals = [];
+
+    // Errors and exposures collected before the withdrawal are never sent
+    this.queue = [];
+    this.exposures = [];
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.transport) {
+      this.saveQueue();
+      this.saveExposures();
+    }
+
+    if (wasGranted) {
+      this.clearError();
+    }
+  }
+
+  getConsent(): ConsentState {
+    return this.consent;
+  }
+
+  /**
+   * Restore undelivered errors and exposures from a previous page and flush when the page is hidden
+   */
+  private initTransport(): void {
+    this.queue = this.loadQueue();
+    this.exposures = this.loadExposures();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => {
+        this.flushVitals();
+        this.flush();
+      });
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.flushVitals();
+          this.flush();
+        }
+      });
+    }
+
+    if (this.queue.length > 0 || this.exposures.length > 0) {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Restore this browser session's sampling decision and error count,
+   * deciding whether the session is sampled on first use
+   */
+  private loadSession(): SessionState {
+    const key = `${this.cookieName}_session`;
+    try {
+      const stored = sessionStorage.getItem(key);
+      const data = stored ? JSON.parse(stored) : null;
+      if (data && typeof data.sampled === 'boolean' && typeof data.logged === 'number') {
+        return data;
+      }
+    } catch {
+      // Storage unavailable - state is kept for this page only
+    }
+
+    const session = { sampled: Math.random() < this.sampleRate, logged: 0 };
+    this.saveSession(session);
+    return session;
+  }
+
+  private saveSession(session: SessionState): void {
+    if (this.consent !== 'granted') return;  // kept in memory until consent
+    try {
+      sessionStorage.setItem(`${this.cookieName}_session`, JSON.stringify(session));
+    } catch {
+      // Storage unavailable - state is kept for this page only
+    }
+  }
+
+  private loadQueue(): ABErrorCompact[] {
+    try {
+      const stored = localStorage.getItem(this.transport!.storageKey);
+      const data = stored ? JSON.parse(stored) : [];
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveQueue(): void {
+    try {
+      if (this.queue.length > 0) {
+        localStorage.setItem(this.transport!.storageKey, JSON.stringify(this.queue));
+      } else {
+        localStorage.removeItem(this.transport!.storageKey);
+      }
+    } catch {
+      // Storage unavailable (private mode, quota) - queue stays in memory only
+    }
+  }
+
+  private loadExposures(): ABExposureCompact[] {
+    try {
+      const stored = localStorage.getItem(`${this.transport!.storageKey}_exposures`);
+      const data = stored ? JSON.parse(stored) : [];
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveExposures(): void {
+    const key = `${this.transport!.storageKey}_exposures`;
+    try {
+      if (this.exposures.length > 0) {
+        localStorage.setItem(key, JSON.stringify(this.exposures));
+      } else {
+        localStorage.removeItem(key);
+      }
+    } catch {
+      // Storage unavailable (private mode, quota) - counts stay in memory only
+    }
+  }
+
+  private enqueue(entry: ABErrorCompact): void {
+    const { batchSize, maxQueueSize } = this.transport!;
+
+    // Repeats of an error still waiting to be sent only bump its count
+    const index = this.queue.findIndex(queued => this.entryKey(queued) === this.entryKey(entry));
+    if (this.dedupe && index >= 0) {
+      const count = (this.queue[index].c ?? 1) + 1;
+      this.queue[index] = { ...entry, c: count };
+      this.saveQueue();
+      this.scheduleFlush();
+      return;
+    }
+
+    this.queue.push(entry);
+    if (this.queue.length > maxQueueSize) {
+      this.queue.splice(0, this.queue.length - maxQueueSize);
+    }
+    this.saveQueue();
+
+    if (this.queue.length >= batchSize) {
+      this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.transport!.flushInterval);
+  }
+
+  /**
+   * Send a batch to the collector. Prefers sendBeacon, falling back to a keepalive fetch.
+   * The body is sent as text/plain so the cross-origin request needs no CORS preflight.
+   */
+  private async send(
+    url: string,
+    payload: ABErrorEnvelope | ABExposureCompact[] | ABVitalCompact[]
+  ): Promise<boolean> {
+    const body = JSON.stringify(payload);
+
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      try {
+        if (navigator.sendBeacon(url, new Blob([body], { type: 'text/plain;charset=UTF-8' }))) {
+          return true;
+        }
+      } catch {
+        // Fall through to fetch
+      }
+    }
+
+    if (typeof fetch !== 'function') return false;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        body,
+        keepalive: true,
+        headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Send queued errors and exposure counts to the collector. Undelivered data
+   * stays in localStorage and is retried on the next page load.
+   */
+  async flush(): Promise<void> {
+    if (this.consent !== 'granted') return;
+    if (!this.transport || (this.queue.length === 0 && this.exposures.length === 0)) return;
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.exposures.length > 0) {
+      const sent = this.exposures;
+      if (await this.send(this.transport.exposureUrl, sent)) {
+        // Keep only exposures counted while the request was in flight
+        this.exposures = this.exposures
+          .map(entry => {
+            const delivered = sent.find(s => s.t === entry.t && s.v === entry.v);
+            return { ...entry, n: entry.n - (delivered ? delivered.n : 0) };
+          })
+          .filter(entry => entry.n > 0);
+        this.saveExposures();
+      }
+    }
+
+    if (this.queue.length === 0) return;
+
+    const batch = this.queue.slice(0, this.transport.batchSize);
+    const delivered = await this.send(this.transport.url, toEnvelope(batch));
+
+    if (delivered) {
+      // Repeats that arrived in flight replaced their entry; keep only the occurrences not yet sent
+      this.queue = this.queue
+        .filter(entry => !batch.includes(entry))
+        .map(entry => {
+          const sent = this.dedupe ? batch.find(s => this.entryKey(s) === this.entryKey(entry)) : undefined;
+          return sent ? { ...entry, c: (entry.c ?? 1) - (sent.c ?? 1) } : entry;
+        })
+        .filter(entry => (entry.c ?? 1) > 0);
+      this.saveQueue();
+
+      if (this.queue.length > 0) {
+        this.scheduleFlush();
+      }
+    }
+  }
+
+  /**
+   * Send this page's web vitals once, when it is first hidden and the values are final
+   */
+  private flushVitals(): void {
+    if (!this.transport || this.vitalsSent || this.vitals.length === 0 || this.consent !== 'granted') return;
+    this.vitalsSent = true;
+    this.send(this.transport.vitalsUrl, this.vitals);
+  }
+
+  /**
+   * Key used to merge repeated errors: the fingerprint when deduplicating,
+   * otherwise only exact repeats are replaced
+   */
+  private entryKey(entry: ABErrorCompact): string {
+    return this.dedupe ? fingerprint(entry) : JSON.stringify([entry.t, entry.v, entry.e, entry.m]);
+  }
+
+  /**
+   * Add an entry to the error buffer. Repeats (see entryKey) are replaced by the
+   * newer entry, and the oldest entries are evicted until the buffer fits both
+   * the entry limit and the byte budget of all cookie chunks.
+   */
+  private addToBuffer(buffer: ABErrorBuffer, entry: ABErrorCompact): ABErrorBuffer {
+    const key = this.entryKey(entry);
+    const next = buffer.filter(e => this.entryKey(e) !== key);
+    next.push(entry);
+
+    while (next.length > this.maxErrors) {
+      next.shift();
+    }
+    while (next.length > 1 && this.encodeBuffer(next).length > this.maxCookieBytes * this.maxCookieChunks) {
+      next.shift();
+    }
+    return next;
+  }
+
+  /**
+   * Shrink an entry that does not fit in one cookie on its own: drop the stack,
+   * then shorten the message until it fits
+   */
+  private fitEntry(entry: ABErrorCompact): ABErrorCompact {
+    const fits = (candidate: ABErrorCompact) => this.encodeBuffer([candidate]).length <= this.maxCookieBytes;
+    if (fits(entry)) return entry;
+
+    const fitted = { ...entry };
+    delete fitted.s;
+
+    let message = fitted.m;
+    while (!fits(fitted) && message.length > 20) {
+      message = message.slice(0, Math.floor(message.length * 0.75));
+      fitted.m = `${message}...`;
+    }
+    return fitted;
+  }
+
+  /**
+   * Write the encoded buffer as one cookie, or split it across `<cookieName>_0..n`
+   * when it is larger than one cookie; leftovers of a previous write are removed.
+   * Returns false if the browser did not store the value.
+   */
+  private writeErrorCookie(value: string, expires: string): boolean {
+    if (typeof document === 'undefined') return false;
+
+    const chunks: string[] = [];
+    for (let offset = 0; offset < value.length; offset += this.maxCookieBytes) {
+      chunks.push(value.slice(offset, offset + this.maxCookieBytes));
+    }
+
+    const attributes = `expires=${expires}; path=${this.cookiePath}`;
+    if (chunks.length === 1) {
+      document.cookie = `${this.cookieName}=${value}; ${attributes}`;
+      this.removeErrorCookies(0);
+    } else {
+      chunks.forEach((chunk, index) => {
+        document.cookie = `${this.cookieName}_${index}=${chunk}; ${attributes}`;
+      });
+      this.removeCookie(this.cookieName);
+      this.removeErrorCookies(chunks.length);
+    }
+
+    return this.readErrorCookie() === value;
+  }
+
+  /**
+   * Write the error buffer to every configured channel
+   */
+  private writeChannels(buffer: ABErrorBuffer): void {
+    for (const channel of this.channels) {
+      if (channel === 'cookie') {
+        if (typeof document === 'undefined') continue;
+        const cookieValue = this.encodeBuffer(buffer);
+        const expires = new Date(Date.now() + this.cookieExpiry * 1000).toUTCString();
+        if (!this.writeErrorCookie(cookieValue, expires)) {
+          console.warn(`ABErrorLogger: Browser did not store the error cookie (${cookieValue.length} bytes)`);
+        }
+      } else if (channel === 'window') {
+        if (typeof window !== 'undefined') window.__AB_ERRORS__ = buffer.slice();
+      } else {
+        try {
+          storageFor(channel)?.setItem(this.cookieName, JSON.stringify(toEnvelope(buffer)));
+        } catch {
+          console.warn(`ABErrorLogger: Could not write errors to ${channel}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the error buffer from one channel; unreadable values count as empty
+   */
+  private readChannel(channel: StorageChannel): ABErrorBuffer {
+    try {
+      if (channel === 'window') {
+        return typeof window !== 'undefined' && Array.isArray(window.__AB_ERRORS__)
+          ? window.__AB_ERRORS__.slice()
+          : [];
+      }
+
+      const value = channel === 'cookie' ? this.readErrorCookie() : storageFor(channel)?.getItem(this.cookieName);
+      if (!value) return [];
+      return parseBuffer(channel === 'cookie' ? decodeURIComponent(value) : value);
+    } catch {
+      return [];
+    }
+  }
+
+  /** Read the error cookie, joining chunks written by writeErrorCookie */
+  private readErrorCookie(): string | null {
+    const value = this.readCookie();
+    if (value) return value;
+
+    const chunks: string[] = [];
+    for (let index = 0; ; index++) {
+      const chunk = this.readCookie(`${this.cookieName}_${index}`);
+      if (!chunk) break;
+      chunks.push(chunk);
+    }
+    return chunks.length > 0 ? chunks.join('') : null;
+  }
+
+  /** Remove error cookie chunks from the given index on */
+  private removeErrorCookies(fromIndex: number): void {
+    for (let index = fromIndex; this.readCookie(`${this.cookieName}_${index}`) !== null; index++) {
+      this.removeCookie(`${this.cookieName}_${index}`);
+    }
+  }
+
+  private removeCookie(cookieName: string): void {
+    if (typeof document !== 'undefined' && this.readCookie(cookieName) !== null) {
+      document.cookie = `${cookieName}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=${this.cookiePath}`;
+    }
+  }
+
+  private encodeBuffer(buffer: ABErrorBuffer): string {
+    return encodeURIComponent(JSON.stringify(toEnvelope(buffer)));
+  }
+
+  private readCookie(cookieName = this.cookieName): string | null {
+    if (typeof document === 'undefined') return null;
+
+    const cookies = document.cookie.split(';');
+    for (const cookie of cookies) {
+      const [name, value] = cookie.trim().split('=');
+      if (name === cookieName && value) {
+        return value;
+      }
+    }
+    return null;
   }
 
   /**
    * Log an error using compact cookie format
    */
-  logError({ testId, variant, errorType, message, browser }: LogErrorParams): boolean {
+  logError({ testId, variant, errorType, message, browser, stack }: LogErrorParams): boolean {
     if (!testId || !variant || !errorType || !message) {
       console.warn('ABErrorLogger: Missing required fields');
       return false;
     }
 
+    // Sessions outside the sample log nothing
+    if (!this.session.sampled) {
+      return false;
+    }
+
     // Validate error type
     let validErrorType = errorType;
-    if (!ERROR_TYPES[errorType]) {
+    if (!this.errorTypes[errorType]) {
       console.warn(`ABErrorLogger: Unknown error type "${errorType}", using UK`);
       validErrorType = 'UK';
     }
@@ -116,10 +1038,13 @@ export class ABErrorLogger {
       validBrowser = 'UK';
     }
 
+    // Redact PII before the message leaves this function
+    const scrubbedMessage = scrubMessage(message, this.scrubDetectors, this.scrubRules);
+
     // Truncate message if too long
-    let truncatedMessage = message;
-    if (message.length > this.maxMessageLength) {
-      truncatedMessage = message.substring(0, this.maxMessageLength - 3) + '...';
+    let truncatedMessage = scrubbedMessage;
+    if (scrubbedMessage.length > this.maxMessageLength) {
+      truncatedMessage = scrubbedMessage.substring(0, this.maxMessageLength - 3) + '...';
     }
 
     // Create compact cookie data
@@ -132,21 +1057,175 @@ export class ABErrorLogger {
       ts: Math.floor(Date.now() / 1000),
     };
 
-    // Encode and set cookie
-    const cookieValue = encodeURIComponent(JSON.stringify(cookieData));
-    const expires = new Date(Date.now() + this.cookieExpiry * 1000).toUTCString();
+    // Attach the top stack frames if available
+    if (stack && this.maxStackFrames > 0) {
+      const compacted = compactStack(stack, this.maxStackFrames, this.maxStackBytes);
+      if (compacted) cookieData.s = compacted;
+    }
+
+    // Without consent yet, the newest errors are held in memory only
+    if (this.consent === 'denied') {
+      return false;
+    }
+    if (this.consent === 'pending') {
+      this.pendingErrors.push(cookieData);
+      if (this.pendingErrors.length > this.maxErrors) {
+        this.pendingErrors.shift();
+      }
+      return true;
+    }
+
+    return this.record(cookieData);
+  }
+
+  /**
+   * Write a logged error to the storage channels and the transport queue
+   */
+  private record(cookieData: ABErrorCompact): boolean {
+    // Repeats of a logged error are merged and counted rather than logged again
+    const errors = this.getErrors();
+    const key = this.entryKey(cookieData);
+    const previous = this.dedupe ? errors.find(e => this.entryKey(e) === key) : undefined;
+    const isRepeat = !!previous || (this.dedupe && this.queue.some(e => this.entryKey(e) === key));
+
+    if (!isRepeat) {
+      if (this.session.logged >= this.maxErrorsPerSession) {
+        return false;
+      }
+      this.session.logged++;
+      this.saveSession(this.session);
+    }
+
+    // Append to the existing buffer, then write it to each channel
+    const cookieEntry = this.fitEntry(previous ? { ...cookieData, c: (previous.c ?? 1) + 1 } : cookieData);
+    const buffer = this.addToBuffer(errors, cookieEntry);
+    this.writeChannels(buffer);
+
+    // The cookie is always written so the crawler still sees errors if delivery fails
+    if (this.transport) {
+      this.enqueue(cookieData);
+    }
+
+    console.debug('ABErrorLogger: Error logged', cookieEntry);
+    return true;
+  }
+
+  /**
+   * Record that a test variant was shown, so failures can be turned into error rates.
+   * Counted once per test and variant per page view, in the `<cookieName>_exp`
+   * cookie for the crawler and through the transport when configured.
+   */
+  logExposure(testId: string, variant: string): boolean {
+    if (!testId || !variant) {
+      console.warn('ABErrorLogger: Missing required fields');
+      return false;
+    }
+
+    // Exposures follow the same session sampling as errors so rates stay comparable
+    const key = JSON.stringify([testId, variant]);
+    if (!this.session.sampled || this.exposed.has(key)) {
+      return false;
+    }
+    this.exposed.add(key);
+
+    if (this.consent === 'denied') {
+      return false;
+    }
+    if (this.consent === 'pending') {
+      this.pendingExposures.push([testId, variant]);
+      return true;
+    }
+
+    this.recordExposure(testId, variant);
+    return true;
+  }
 
+  private recordExposure(testId: string, variant: string): void {
+    const counts = this.addExposure(this.getExposures(), testId, variant, this.maxErrors);
     if (typeof document !== 'undefined') {
-      document.cookie = `${this.cookieName}=${cookieValue}; expires=${expires}; path=${this.cookiePath}`;
+      const expires = new Date(Date.now() + this.cookieExpiry * 1000).toUTCString();
+      document.cookie = `${this.cookieName}_exp=${encodeURIComponent(JSON.stringify(counts))}; expires=${expires}; path=${this.cookiePath}`;
+    }
+
+    if (this.transport) {
+      this.exposures = this.addExposure(this.exposures, testId, variant, this.transport.maxQueueSize);
+      this.saveExposures();
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Increment the count for a test variant, keeping at most `limit` variants
+   */
+  private addExposure(
+    counts: ABExposureCompact[],
+    testId: string,
+    variant: string,
+    limit: number
+  ): ABExposureCompact[] {
+    const existing = counts.find(e => e.t === testId && e.v === variant);
+    const next = counts.filter(e => e !== existing);
+    next.push({ t: testId, v: variant, n: (existing ? existing.n : 0) + 1 });
+
+    while (next.length > limit) {
+      next.shift();
+    }
+    return next;
+  }
+
+  /**
+   * Record a Core Web Vitals value for a test variant, replacing the previous value
+   * of the metric. Kept in the `<cookieName>_vit` cookie for the crawler and sent
+   * through the transport when the page is hidden. Values from a web-vitals library
+   * can be passed here instead of using `captureVitals`.
+   */
+  logVital(testId: string, variant: string, name: WebVitalName, value: number): boolean {
+    if (!testId || !variant || !Number.isFinite(value) || value < 0) {
+      console.warn('ABErrorLogger: Missing required fields');
+      return false;
+    }
+    if (!this.session.sampled || this.consent === 'denied') {
+      return false;
     }
 
-    console.debug('ABErrorLogger: Error logged', cookieData);
+    const rounded = name === 'CLS' ? Math.round(value * 10000) / 10000 : Math.round(value);
+    this.vitals = this.vitals.filter(entry => !(entry.t === testId && entry.v === variant && entry.n === name));
+    this.vitals.push({ t: testId, v: variant, n: name, x: rounded });
+
+    // Held in memory until consent, like errors
+    if (this.consent === 'granted') {
+      this.writeVitals();
+    }
     return true;
   }
 
+  private writeVitals(): void {
+    if (typeof document === 'undefined') return;
+    const expires = new Date(Date.now() + this.cookieExpiry * 1000).toUTCString();
+    document.cookie = `${this.cookieName}_vit=${encodeURIComponent(JSON.stringify(this.vitals))}; expires=${expires}; path=${this.cookiePath}`;
+  }
+
+  /** Get the web vitals recorded on this page */
+  getVitals(): ABVitalCompact[] {
+    return this.vitals.slice();
+  }
+
+  /** Get the exposure counts stored in the cookie */
+  getExposures(): ABExposureCompact[] {
+    const value = this.readCookie(`${this.cookieName}_exp`);
+    if (!value) return [];
+
+    try {
+      const data = JSON.parse(decodeURIComponent(value));
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
   /** Log a JavaScript error */
-  logJSError(testId: string, variant: string, message: string): boolean {
-    return this.logError({ testId, variant, errorType: 'JS', message });
+  logJSError(testId: string, variant: string, message: string, stack?: string): boolean {
+    return this.logError({ testId, variant, errorType: 'JS', message, stack });
   }
 
   /** Log a network error */
@@ -160,8 +1239,8 @@ export class ABErrorLogger {
   }
 
   /** Log a render error */
-  logRenderError(testId: string, variant: string, message: string): boolean {
-    return this.logError({ testId, variant, errorType: 'RN', message });
+  logRenderError(testId: string, variant: string, message: string, stack?: string): boolean {
+    return this.logError({ testId, variant, errorType: 'RN', message, stack });
   }
 
   /** Log a timeout error */
@@ -169,36 +1248,384 @@ export class ABErrorLogger {
     return this.logError({ testId, variant, errorType: 'TO', message });
   }
 
-  /** Clear the error cookie */
+  /**
+   * Capture uncaught errors, unhandled rejections and resource load failures
+   * for the given test/variant until uninstall() is called
+   */
+  install({
+    testId,
+    variant,
+    captureResourceErrors = true,
+    captureNetwork = false,
+    captureVitals = false,
+  }: InstallOptions): boolean {
+    if (typeof window === 'undefined') return false;
+    if (!testId || !variant) {
+      console.warn('ABErrorLogger: install requires testId and variant');
+      return false;
+    }
+
+    // Only one test/variant can be active at a time
+    this.uninstall();
+
+    const onError = (event: Event): void => {
+      if (event instanceof ErrorEvent) {
+        this.logError({
+          testId,
+          variant,
+          errorType: classifyError(event.error ?? event.message, 'JS'),
+          message: event.error ? describeError(event.error) : event.message || 'Script error',
+          stack: event.error instanceof Error ? event.error.stack : undefined,
+        });
+        return;
+      }
+
+      // Resource errors don't bubble, so they only reach window in the capture phase
+      const target = event.target as (Element & { src?: string; href?: string }) | null;
+      if (captureResourceErrors && target && target.tagName) {
+        const source = target.src || target.href || '';
+        this.logError({
+          testId,
+          variant,
+          errorType: 'NW',
+          message: `Failed to load ${target.tagName.toLowerCase()}: ${source}`,
+        });
+      }
+    };
+
+    const onRejection = (event: PromiseRejectionEvent): void => {
+      this.logError({
+        testId,
+        variant,
+        errorType: classifyError(event.reason),
+        message: `Unhandled rejection: ${describeError(event.reason)}`,
+        stack: event.reason instanceof Error ? event.reason.stack : undefined,
+      });
+    };
+
+    window.addEventListener('error', onError, true);
+    window.addEventListener('unhandledrejection', onRejection);
+    this.eventHandler = event =>
+      event.type === 'unhandledrejection' ? onRejection(event as PromiseRejectionEvent) : onError(event);
+
+    const restoreNetwork = captureNetwork
+      ? this.instrumentNetwork(testId, variant, captureNetwork === true ? {} : captureNetwork)
+      : null;
+    const stopVitals = captureVitals ? this.observeVitals(testId, variant) : null;
+
+    this.removeListeners = () => {
+      window.removeEventListener('error', onError, true);
+      window.removeEventListener('unhandledrejection', onRejection);
+      if (restoreNetwork) restoreNetwork();
+      if (stopVitals) stopVitals();
+    };
+    return true;
+  }
+
+  /**
+   * Wrap fetch and XMLHttpRequest to log non-2xx responses (AP/AU) and
+   * network failures (NW/TO). Returns a function that restores the originals.
+   */
+  private instrumentNetwork(
+    testId: string,
+    variant: string,
+    { allowUrls = [], denyUrls = [] }: NetworkCaptureOptions
+  ): () => void {
+    const restore: Array<() => void> = [];
+    // Never report our own collector requests, or a failing collector would feed itself
+    const ownUrls = this.transport
+      ? [this.transport.url, this.transport.exposureUrl, this.transport.vitalsUrl].map(stripQuery)
+      : [];
+
+    const shouldCapture = (url: string): boolean => {
+      if (matchesPattern(url, ownUrls) || matchesPattern(url, denyUrls)) return false;
+      return allowUrls.length === 0 || matchesPattern(url, allowUrls);
+    };
+
+    const reportStatus = (method: string, url: string, status: number): void => {
+      this.logError({
+        testId,
+        variant,
+        errorType: status === 401 || status === 403 ? 'AU' : 'AP',
+        message: `${method} ${stripQuery(url)} returned ${status}`,
+      });
+    };
+
+    const reportFailure = (method: string, url: string, reason: unknown): void => {
+      const errorType = classifyError(reason, 'NW');
+      this.logError({
+        testId,
+        variant,
+        errorType: errorType === 'TO' ? 'TO' : 'NW',
+        message: `${method} ${stripQuery(url)} failed: ${describeError(reason)}`,
+      });
+    };
+
+    if (typeof window.fetch === 'function') {
+      const originalFetch = window.fetch;
+
+      window.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+        const isRequest = typeof Request !== 'undefined' && input instanceof Request;
+        const url = isRequest ? (input as Request).url : String(input);
+        const method = (init?.method || (isRequest ? (input as Request).method : 'GET')).toUpperCase();
+
+        const request = originalFetch.call(window, input, init);
+        if (!shouldCapture(url)) return request;
+
+        return request.then(
+          response => {
+            if (!response.ok) reportStatus(method, url, response.status);
+            return response;
+          },
+          error => {
+            reportFailure(method, url, error);
+            throw error;
+          }
+        );
+      }) as typeof window.fetch;
+
+      restore.push(() => {
+        window.fetch = originalFetch;
+      });
+    }
+
+    if (typeof XMLHttpRequest !== 'undefined') {
+      const proto = XMLHttpRequest.prototype;
+      const originalOpen = proto.open;
+      const originalSend = proto.send;
+      const requests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+      proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+        requests.set(this, { method: method.toUpperCase(), url: String(url) });
+        return (originalOpen as (...args: unknown[]) => void).apply(this, [method, url, ...rest]);
+      } as typeof proto.open;
+
+      proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+        const request = requests.get(this);
+        if (request && shouldCapture(request.url)) {
+          this.addEventListener('load', () => {
+            if (this.status < 200 || this.status >= 300) {
+              reportStatus(request.method, request.url, this.status);
+            }
+          });
+          this.addEventListener('error', () => reportFailure(request.method, request.url, 'network error'));
+          this.addEventListener('timeout', () => reportFailure(request.method, request.url, 'timeout'));
+        }
+        return originalSend.call(this, body);
+      };
+
+      restore.push(() => {
+        proto.open = originalOpen;
+        proto.send = originalSend;
+      });
+    }
+
+    return () => restore.forEach(fn => fn());
+  }
+
+  /**
+   * Observe Core Web Vitals with PerformanceObserver and log each new value.
+   * Returns a function that disconnects the observers.
+   */
+  private observeVitals(testId: string, variant: string): () => void {
+    if (typeof PerformanceObserver === 'undefined' || typeof performance === 'undefined') {
+      return () => {};
+    }
+
+    const observers: PerformanceObserver[] = [];
+    const observe = (type: string, callback: (entries: PerformanceEntryList) => void, init = {}): void => {
+      try {
+        const observer = new PerformanceObserver(list => callback(list.getEntries()));
+        observer.observe({ type, buffered: true, ...init } as PerformanceObserverInit);
+        observers.push(observer);
+      } catch {
+        // Entry type not supported by this browser
+      }
+    };
+
+    // TTFB: time until the first byte of the page response
+    const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+    if (navigation && navigation.responseStart > 0) {
+      this.logVital(testId, variant, 'TTFB', navigation.responseStart);
+    }
+
+    // LCP: the latest largest-contentful-paint candidate
+    observe('largest-contentful-paint', entries => {
+      const last = entries[entries.length - 1];
+      if (last) this.logVital(testId, variant, 'LCP', last.startTime);
+    });
+
+    // CLS: the largest session window of shifts (gaps under 1s, at most 5s) not caused by input
+    let cls = 0;
+    let windowValue = 0;
+    let windowStart = 0;
+    let windowEnd = 0;
+    this.logVital(testId, variant, 'CLS', 0);
+    observe('layout-shift', entries => {
+      for (const entry of entries as LayoutShiftEntry[]) {
+        if (entry.hadRecentInput) continue;
+        if (windowValue > 0 && entry.startTime - windowEnd < 1000 && entry.startTime - windowStart < 5000) {
+          windowValue += entry.value;
+        } else {
+          windowValue = entry.value;
+          windowStart = entry.startTime;
+        }
+        windowEnd = entry.startTime;
+        if (windowValue > cls) {
+          cls = windowValue;
+          this.logVital(testId, variant, 'CLS', cls);
+        }
+      }
+    });
+
+    // INP: the slowest interaction, which matches INP unless a page has 50+ interactions
+    let inp = 0;
+    observe('event', entries => {
+      for (const entry of entries as EventTimingEntry[]) {
+        if (!entry.interactionId || entry.duration <= inp) continue;
+        inp = entry.duration;
+        this.logVital(testId, variant, 'INP', inp);
+      }
+    }, { durationThreshold: 40 });
+
+    return () => observers.forEach(observer => observer.disconnect());
+  }
+
+  /** Stop automatic error capture */
+  uninstall(): void {
+    if (this.removeListeners) {
+      this.removeListeners();
+      this.removeListeners = null;
+      this.eventHandler = null;
+    }
+  }
+
+  /**
+   * Log an error or unhandledrejection event that fired before install(),
+   * e.g. one buffered by the loader snippet, for the installed test/variant
+   */
+  captureEvent(event: Event): boolean {
+    if (!this.eventHandler) return false;
+    this.eventHandler(event);
+    return true;
+  }
+
+  /** Check if automatic error capture is active */
+  isInstalled(): boolean {
+    return this.removeListeners !== null;
+  }
+
+  /** Clear logged errors from every channel */
   clearError(): void {
-    if (typeof document !== 'undefined') {
-      document.cookie = `${this.cookieName}=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=${this.cookiePath}`;
+    for (const channel of this.channels) {
+      if (channel === 'cookie') {
+        this.removeCookie(this.cookieName);
+        this.removeErrorCookies(0);
+      } else if (channel === 'window') {
+        if (typeof window !== 'undefined') delete window.__AB_ERRORS__;
+      } else {
+        try {
+          storageFor(channel)?.removeItem(this.cookieName);
+        } catch {
+          // Storage blocked - nothing to clear
+        }
+      }
     }
   }
 
   /** Check if an error is currently logged */
   hasError(): boolean {
-    if (typeof document === 'undefined') return false;
-    return document.cookie.includes(`${this.cookieName}=`);
+    return this.getErrors().length > 0;
   }
 
-  /** Get current error data (if any) */
+  /** Get the most recently logged error (if any) */
   getError(): ABErrorCompact | null {
-    if (typeof document === 'undefined') return null;
+    const errors = this.getErrors();
+    return errors.length > 0 ? errors[errors.length - 1] : null;
+  }
 
-    const cookies = document.cookie.split(';');
-    for (const cookie of cookies) {
-      const [name, value] = cookie.trim().split('=');
-      if (name === this.cookieName && value) {
-        try {
-          return JSON.parse(decodeURIComponent(value));
-        } catch {
-          return null;
-        }
+  /** Get all buffered errors, oldest first */
+  getErrors(): ABErrorBuffer {
+    // Every channel holds the same buffer; the first one with errors wins
+    for (const channel of this.channels) {
+      const errors = this.readChannel(channel);
+      if (errors.length > 0) return errors;
+    }
+    return [];
+  }
+}
+
+// Logger methods that can be called through the `abErrQ` command queue
+const QUEUE_METHODS = [
+  'logError', 'logJSError', 'logNetworkError', 'logAPIError', 'logRenderError', 'logTimeoutError',
+  'logExposure', 'logVital', 'install', 'uninstall', 'flush', 'clearError', 'grantConsent', 'denyConsent',
+] as const;
+
+/**
+ * Replay the commands buffered by the loader snippet in `host.abErrQ`, then replace
+ * the queue so later pushes run immediately. `['init', cookieName, options]` creates
+ * the logger (a default one is created otherwise); errors captured before the SDK
+ * loaded (`['_event', event]`) are logged once a command installs a test/variant.
+ */
+export function processQueue(host: ABErrQueueHost = window): ABErrorLogger {
+  const pending = host.abErrQ;
+  if (pending && !Array.isArray(pending) && pending.logger) {
+    return pending.logger;  // already processed
+  }
+
+  let logger: ABErrorLogger | null = null;
+  const events: Event[] = [];
+
+  const run = ([name, ...args]: ABErrQCommand): void => {
+    if (name === '_event') {
+      events.push(args[0] as Event);
+      return;
+    }
+
+    if (name === 'init') {
+      if (logger) {
+        console.warn('ABErrorLogger: init must be the first queued command');
+        return;
       }
+      logger = new ABErrorLogger(...(args as [string?, ABErrorLoggerOptions?]));
+      return;
     }
-    return null;
+
+    if (!logger) logger = new ABErrorLogger();
+    const active = logger;
+
+    if ((QUEUE_METHODS as readonly string[]).includes(name)) {
+      (active[name as typeof QUEUE_METHODS[number]] as (...params: unknown[]) => unknown).apply(active, args);
+    } else {
+      console.warn(`ABErrorLogger: Unknown queued command "${name}"`);
+    }
+
+    // Errors from before install() belong to the test/variant it installs
+    if (events.length > 0 && active.isInstalled()) {
+      events.splice(0).forEach(event => active.captureEvent(event));
+    }
+  };
+
+  if (Array.isArray(pending)) {
+    pending.loaded = true;  // stops the snippet's own listeners
+    pending.forEach(run);
   }
+
+  if (!logger) logger = new ABErrorLogger();  // later pushes use the same logger
+  host.abErrQ = {
+    loaded: true,
+    logger,
+    push: (...commands: ABErrQCommand[]) => {
+      commands.forEach(run);
+      return 0;
+    },
+  };
+  return logger;
+}
+
+// Pick up the loader snippet's queue when the SDK loads after it
+if (typeof window !== 'undefined' && Array.isArray(window.abErrQ)) {
+  processQueue(window);
 }
 
 // Default export
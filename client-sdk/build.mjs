@@ -0,0 +1,67 @@
+// Builds dist/ab-error-logger.{esm,umd,iife}.js from ab-error-logger.ts and
+// dist/ab-error-logger-react.esm.js from ab-error-logger-react.tsx
+import { build } from 'esbuild';
+
+const common = {
+  entryPoints: ['ab-error-logger.ts'],
+  bundle: true,
+  minify: true,
+  sourcemap: true,
+  target: 'es2017',
+  logLevel: 'info',
+};
+
+// Globals set by the UMD and IIFE builds, matching ab-error-logger.js
+const exposeGlobals = `
+  root.ABErrorLogger = sdk.ABErrorLogger;
+  root.AB_ERROR_TYPES = sdk.ERROR_TYPES;
+  root.AB_BROWSERS = sdk.BROWSERS;`;
+
+// The React bindings import the core SDK from the ESM build instead of bundling a second copy
+const coreAsExternal = {
+  name: 'core-as-external',
+  setup(pluginBuild) {
+    pluginBuild.onResolve({ filter: /^\.\/ab-error-logger$/ }, () => ({
+      path: './ab-error-logger.esm.js',
+      external: true,
+    }));
+  },
+};
+
+await Promise.all([
+  build({ ...common, format: 'esm', outfile: 'dist/ab-error-logger.esm.js' }),
+
+  // UMD: CommonJS and AMD loaders get the module, plain script tags get globals
+  build({
+    ...common,
+    format: 'cjs',
+    outfile: 'dist/ab-error-logger.umd.js',
+    banner: {
+      js: `(function (root, factory) {
+  if (typeof module === 'object' && module.exports) module.exports = factory();
+  else if (typeof define === 'function' && define.amd) define([], factory);
+  else { var sdk = factory();${exposeGlobals} }
+})(typeof self !== 'undefined' ? self : this, function () {
+var module = { exports: {} }, exports = module.exports;`,
+    },
+    footer: { js: 'return module.exports;\n});' },
+  }),
+
+  build({
+    ...common,
+    format: 'iife',
+    globalName: '__abErrorLoggerSdk',
+    outfile: 'dist/ab-error-logger.iife.js',
+    footer: { js: `(function (root, sdk) {${exposeGlobals}\n})(window, __abErrorLoggerSdk);` },
+  }),
+
+  build({
+    ...common,
+    entryPoints: ['ab-error-logger-react.tsx'],
+    format: 'esm',
+    jsx: 'automatic',
+    external: ['react', 'react/jsx-runtime'],
+    plugins: [coreAsExternal],
+    outfile: 'dist/ab-error-logger-react.esm.js',
+  }),
+]);
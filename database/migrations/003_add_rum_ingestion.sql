@@ -0,0 +1,16 @@
+-- Migration: Add real-user (RUM) error ingestion support
+-- Clients get a public site key used by the SDK transport, and failures
+-- record whether they were found by the crawler or reported by real users
+
+ALTER TABLE clients
+ADD COLUMN site_key VARCHAR(64) NULL AFTER contact_person,
+ADD UNIQUE INDEX idx_site_key (site_key);
+
+-- Generate site keys for existing clients
+UPDATE clients SET site_key = REPLACE(UUID(), '-', '') WHERE site_key IS NULL;
+
+-- RUM failures are not tied to a crawler check
+ALTER TABLE detected_failures
+MODIFY COLUMN check_id INT NULL,
+ADD COLUMN source ENUM('crawler', 'rum') NOT NULL DEFAULT 'crawler' AFTER client_id,
+ADD INDEX idx_source (source);
@@ -0,0 +1,6 @@
+-- Migration: Store compacted stack traces reported by the SDK
+-- Holds the decoded top frames as a JSON array of
+-- { function_name, file, line, column } objects
+
+ALTER TABLE detected_failures
+ADD COLUMN stack_trace JSON NULL AFTER timestamp_from_cookie;
@@ -0,0 +1,16 @@
+-- Migration: Add source map storage for stack trace symbolication
+-- Maps are uploaded per client and test; the file itself is kept on disk
+
+CREATE TABLE source_maps (
+    source_map_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    test_id VARCHAR(255) NOT NULL,
+    file_url VARCHAR(500) NOT NULL,
+    file_path VARCHAR(500) NOT NULL,
+    uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_client_test_file (client_id, test_id, file_url),
+    INDEX idx_client_test (client_id, test_id)
+);
@@ -0,0 +1,5 @@
+-- Migration: Record how often an error occurred
+-- The SDK merges repeats of the same error into one entry with a count
+
+ALTER TABLE detected_failures
+ADD COLUMN occurrence_count INT NOT NULL DEFAULT 1 AFTER stack_trace;
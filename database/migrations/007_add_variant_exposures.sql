@@ -0,0 +1,20 @@
+-- Migration: Record how often each test variant was shown
+-- Daily exposure totals per URL and source let failures be reported as error rates
+
+CREATE TABLE variant_exposures (
+    exposure_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    url_id INT NOT NULL,
+    source ENUM('crawler', 'rum') NOT NULL,
+    test_id VARCHAR(255) NOT NULL,
+    variant VARCHAR(255) NOT NULL,
+    exposure_date DATE NOT NULL,
+    exposure_count INT NOT NULL DEFAULT 0,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+    FOREIGN KEY (url_id) REFERENCES monitored_urls(url_id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_daily_exposure (url_id, source, test_id, variant, exposure_date),
+    INDEX idx_test_variant (test_id, variant),
+    INDEX idx_exposure_date (exposure_date)
+);
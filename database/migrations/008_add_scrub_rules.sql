@@ -0,0 +1,16 @@
+-- Migration: Per-client custom PII scrubbing rules
+-- Regex rules applied to error messages, after the built-in detectors, before failures are stored
+
+CREATE TABLE scrub_rules (
+    rule_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    pattern VARCHAR(500) NOT NULL,
+    replacement VARCHAR(100) NOT NULL DEFAULT '[redacted]',
+    description VARCHAR(255) NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+
+    INDEX idx_client_id (client_id)
+);
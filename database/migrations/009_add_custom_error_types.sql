@@ -0,0 +1,15 @@
+-- Migration: Per-client custom error type codes
+-- Codes such as 'CK' (checkout) that the SDK can log and the backend decodes, alongside the built-in codes
+
+CREATE TABLE custom_error_types (
+    error_type_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    code VARCHAR(4) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_client_code (client_id, code)
+);
@@ -0,0 +1,22 @@
+-- Migration: Store Core Web Vitals reported per test variant
+-- One row per page view and metric, so percentiles can be compared between variants
+
+CREATE TABLE web_vitals (
+    vital_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    url_id INT NOT NULL,
+    check_id INT NULL,
+    source ENUM('crawler', 'rum') NOT NULL,
+    test_id VARCHAR(255) NOT NULL,
+    variant VARCHAR(255) NOT NULL,
+    metric ENUM('LCP', 'CLS', 'INP', 'TTFB') NOT NULL,
+    value DECIMAL(12, 4) NOT NULL,  -- milliseconds; unitless for CLS
+    recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+    FOREIGN KEY (url_id) REFERENCES monitored_urls(url_id) ON DELETE CASCADE,
+    FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
+
+    INDEX idx_test_variant_metric (test_id, variant, metric),
+    INDEX idx_recorded_at (recorded_at)
+);
@@ -0,0 +1,12 @@
+-- Migration: Check every variant of a URL's test explicitly
+-- A URL declares its test's variants and how the page lets one be forced
+-- (query parameter, cookie or localStorage key); each check records the variant it forced
+
+ALTER TABLE monitored_urls
+ADD COLUMN test_id VARCHAR(255) NULL AFTER has_active_test,
+ADD COLUMN variants JSON NULL AFTER test_id,
+ADD COLUMN variant_force_method ENUM('query', 'cookie', 'localStorage') NULL AFTER variants,
+ADD COLUMN variant_force_key VARCHAR(255) NULL AFTER variant_force_method;
+
+ALTER TABLE url_checks
+ADD COLUMN forced_variant VARCHAR(255) NULL AFTER config_id;
@@ -0,0 +1,10 @@
+-- Migration: Scripted user journeys
+-- A URL can carry an ordered step script (click, fill, ...) run before the error
+-- cookie is read; each check records its step timings and the step that failed
+
+ALTER TABLE monitored_urls
+ADD COLUMN journey_steps JSON NULL AFTER variant_force_key;
+
+ALTER TABLE url_checks
+ADD COLUMN step_timings JSON NULL AFTER error_message,
+ADD COLUMN failed_step INT NULL AFTER step_timings;
@@ -0,0 +1,22 @@
+-- Migration: Capture console errors and uncaught page exceptions per check
+-- Recorded whether or not the SDK loaded; messages matching CONSOLE_FAILURE_PATTERNS
+-- are also stored as failures with source = 'console'
+
+CREATE TABLE console_messages (
+    message_id INT PRIMARY KEY AUTO_INCREMENT,
+    check_id INT NOT NULL,
+    kind ENUM('console', 'pageerror') NOT NULL,  -- console.error() or an uncaught exception
+    message TEXT NOT NULL,
+    source_url VARCHAR(500) NULL,
+    line_number INT NULL,
+    column_number INT NULL,
+    occurrence_count INT NOT NULL DEFAULT 1,
+    logged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
+
+    INDEX idx_check_id (check_id)
+);
+
+ALTER TABLE detected_failures
+MODIFY COLUMN source ENUM('crawler', 'rum', 'console') NOT NULL DEFAULT 'crawler';
@@ -0,0 +1,20 @@
+-- Migration: Record failed network requests per check
+-- Requests that failed outright and 4xx/5xx responses, e.g. a variant script
+-- returning 404 from the testing tool's CDN
+
+CREATE TABLE network_failures (
+    network_failure_id INT PRIMARY KEY AUTO_INCREMENT,
+    check_id INT NOT NULL,
+    url VARCHAR(2000) NOT NULL,
+    method VARCHAR(10) NOT NULL,
+    status INT NULL,                   -- NULL when no response was received
+    failure_text VARCHAR(255) NULL,    -- browser error, e.g. net::ERR_NAME_NOT_RESOLVED
+    resource_type VARCHAR(30) NOT NULL,
+    duration_ms INT NULL,
+    occurrence_count INT NOT NULL DEFAULT 1,
+    logged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
+
+    INDEX idx_check_id (check_id)
+);
@@ -0,0 +1,18 @@
+-- Migration: Generalize failure screenshots into artifacts
+-- Besides screenshots, checks that detect errors or end in error/timeout keep a
+-- HAR file and a Playwright trace. Artifacts belong to the check, and to each
+-- failure it recorded; checks without failures keep theirs with failure_id NULL.
+
+RENAME TABLE failure_screenshots TO artifacts;
+
+ALTER TABLE artifacts
+CHANGE COLUMN screenshot_id artifact_id INT NOT NULL AUTO_INCREMENT,
+ADD COLUMN check_id INT NULL AFTER artifact_id,
+MODIFY COLUMN failure_id INT NULL,
+ADD COLUMN kind ENUM('screenshot', 'har', 'trace') NOT NULL DEFAULT 'screenshot' AFTER failure_id,
+ADD FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
+ADD INDEX idx_check_id (check_id);
+
+UPDATE artifacts a
+JOIN detected_failures df ON a.failure_id = df.failure_id
+SET a.check_id = df.check_id;
@@ -0,0 +1,9 @@
+-- Migration: Video recording of failing checks
+-- Browser configurations can record a video of each check; it is kept as an
+-- artifact only when the check detects errors or ends in error/timeout.
+
+ALTER TABLE browser_configurations
+ADD COLUMN record_video BOOLEAN DEFAULT FALSE AFTER user_agent;
+
+ALTER TABLE artifacts
+MODIFY COLUMN kind ENUM('screenshot', 'har', 'trace', 'video') NOT NULL DEFAULT 'screenshot';
@@ -17,6 +17,7 @@ CREATE TABLE clients (
     company_name VARCHAR(255),
     email VARCHAR(255),
     contact_person VARCHAR(255),
+    site_key VARCHAR(64) UNIQUE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     is_active BOOLEAN DEFAULT TRUE,
     notes TEXT,
@@ -33,6 +34,11 @@ CREATE TABLE monitored_urls (
     url_label VARCHAR(255),
     is_active BOOLEAN DEFAULT TRUE,
     has_active_test BOOLEAN DEFAULT TRUE,
+    test_id VARCHAR(255) NULL,
+    variants JSON NULL,  -- variant names to force, e.g. ["A", "B"]
+    variant_force_method ENUM('query', 'cookie', 'localStorage') NULL,
+    variant_force_key VARCHAR(255) NULL,
+    journey_steps JSON NULL,  -- ordered steps run before the cookie is read, e.g. [{"action": "click", "selector": "#cart"}]
     last_checked_at TIMESTAMP NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     notes TEXT,
@@ -54,6 +60,7 @@ CREATE TABLE browser_configurations (
     viewport_width INT,
     viewport_height INT,
     user_agent TEXT,
+    record_video BOOLEAN DEFAULT FALSE,  -- keep a video of checks that fail
     is_active BOOLEAN DEFAULT TRUE,
 
     INDEX idx_is_active (is_active)
@@ -82,12 +89,15 @@ CREATE TABLE url_checks (
     run_id INT NOT NULL,
     url_id INT NOT NULL,
     config_id INT NOT NULL,
+    forced_variant VARCHAR(255) NULL,
     checked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     page_load_time_ms INT,
     cookie_found BOOLEAN DEFAULT FALSE,
     error_detected BOOLEAN DEFAULT FALSE,
     check_status ENUM('success', 'timeout', 'error', 'unreachable') DEFAULT 'success',
     error_message TEXT,
+    step_timings JSON NULL,  -- per-step durations of the URL's journey
+    failed_step INT NULL,    -- 1-based step that could not complete
 
     FOREIGN KEY (run_id) REFERENCES monitoring_runs(run_id) ON DELETE CASCADE,
     FOREIGN KEY (url_id) REFERENCES monitored_urls(url_id) ON DELETE CASCADE,
@@ -102,15 +112,18 @@ CREATE TABLE url_checks (
 -- Table 7: detected_failures
 CREATE TABLE detected_failures (
     failure_id INT PRIMARY KEY AUTO_INCREMENT,
-    check_id INT NOT NULL,
+    check_id INT NULL,
     url_id INT NOT NULL,
     client_id INT NOT NULL,
+    source ENUM('crawler', 'rum', 'console') NOT NULL DEFAULT 'crawler',
     test_id VARCHAR(255) NOT NULL,
     variant VARCHAR(255) NOT NULL,
     error_type VARCHAR(100) NOT NULL,
     error_message TEXT NOT NULL,
     browser_from_cookie VARCHAR(100),
     timestamp_from_cookie TIMESTAMP,
+    stack_trace JSON NULL,
+    occurrence_count INT NOT NULL DEFAULT 1,
     detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     resolution_status ENUM('new', 'acknowledged', 'investigating', 'resolved', 'ignored') DEFAULT 'new',
     resolved_at TIMESTAMP NULL,
@@ -126,17 +139,143 @@ CREATE TABLE detected_failures (
     INDEX idx_test_id (test_id),
     INDEX idx_error_type (error_type),
     INDEX idx_resolution_status (resolution_status),
+    INDEX idx_source (source),
     INDEX idx_detected_at (detected_at),
     INDEX idx_composite (client_id, resolution_status, detected_at)
 );
 
--- Table 8: failure_screenshots
-CREATE TABLE failure_screenshots (
-    screenshot_id INT PRIMARY KEY AUTO_INCREMENT,
-    failure_id INT NOT NULL,
+-- Table 8: artifacts
+-- Screenshots, HAR files, Playwright traces and videos of a check, linked to each failure it
+-- recorded (failure_id NULL for error/timeout checks without failures)
+CREATE TABLE artifacts (
+    artifact_id INT PRIMARY KEY AUTO_INCREMENT,
+    check_id INT NULL,
+    failure_id INT NULL,
+    kind ENUM('screenshot', 'har', 'trace', 'video') NOT NULL DEFAULT 'screenshot',
     file_path VARCHAR(500) NOT NULL,
     captured_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
 
+    FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
     FOREIGN KEY (failure_id) REFERENCES detected_failures(failure_id) ON DELETE CASCADE,
+    INDEX idx_check_id (check_id),
     INDEX idx_failure_id (failure_id)
 );
+
+-- Table 9: source_maps
+CREATE TABLE source_maps (
+    source_map_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    test_id VARCHAR(255) NOT NULL,
+    file_url VARCHAR(500) NOT NULL,
+    file_path VARCHAR(500) NOT NULL,
+    uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_client_test_file (client_id, test_id, file_url),
+    INDEX idx_client_test (client_id, test_id)
+);
+
+-- Table 10: variant_exposures
+CREATE TABLE variant_exposures (
+    exposure_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    url_id INT NOT NULL,
+    source ENUM('crawler', 'rum') NOT NULL,
+    test_id VARCHAR(255) NOT NULL,
+    variant VARCHAR(255) NOT NULL,
+    exposure_date DATE NOT NULL,
+    exposure_count INT NOT NULL DEFAULT 0,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+    FOREIGN KEY (url_id) REFERENCES monitored_urls(url_id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_daily_exposure (url_id, source, test_id, variant, exposure_date),
+    INDEX idx_test_variant (test_id, variant),
+    INDEX idx_exposure_date (exposure_date)
+);
+
+-- Table 11: scrub_rules
+CREATE TABLE scrub_rules (
+    rule_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    pattern VARCHAR(500) NOT NULL,
+    replacement VARCHAR(100) NOT NULL DEFAULT '[redacted]',
+    description VARCHAR(255) NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+
+    INDEX idx_client_id (client_id)
+);
+
+-- Table 12: custom_error_types
+CREATE TABLE custom_error_types (
+    error_type_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    code VARCHAR(4) NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    description VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+
+    UNIQUE KEY uk_client_code (client_id, code)
+);
+
+-- Table 13: web_vitals
+CREATE TABLE web_vitals (
+    vital_id INT PRIMARY KEY AUTO_INCREMENT,
+    client_id INT NOT NULL,
+    url_id INT NOT NULL,
+    check_id INT NULL,
+    source ENUM('crawler', 'rum') NOT NULL,
+    test_id VARCHAR(255) NOT NULL,
+    variant VARCHAR(255) NOT NULL,
+    metric ENUM('LCP', 'CLS', 'INP', 'TTFB') NOT NULL,
+    value DECIMAL(12, 4) NOT NULL,  -- milliseconds; unitless for CLS
+    recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (client_id) REFERENCES clients(client_id) ON DELETE CASCADE,
+    FOREIGN KEY (url_id) REFERENCES monitored_urls(url_id) ON DELETE CASCADE,
+    FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
+
+    INDEX idx_test_variant_metric (test_id, variant, metric),
+    INDEX idx_recorded_at (recorded_at)
+);
+
+-- Table 14: console_messages
+CREATE TABLE console_messages (
+    message_id INT PRIMARY KEY AUTO_INCREMENT,
+    check_id INT NOT NULL,
+    kind ENUM('console', 'pageerror') NOT NULL,  -- console.error() or an uncaught exception
+    message TEXT NOT NULL,
+    source_url VARCHAR(500) NULL,
+    line_number INT NULL,
+    column_number INT NULL,
+    occurrence_count INT NOT NULL DEFAULT 1,
+    logged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
+
+    INDEX idx_check_id (check_id)
+);
+
+-- Table 15: network_failures
+CREATE TABLE network_failures (
+    network_failure_id INT PRIMARY KEY AUTO_INCREMENT,
+    check_id INT NOT NULL,
+    url VARCHAR(2000) NOT NULL,
+    method VARCHAR(10) NOT NULL,
+    status INT NULL,                   -- NULL when no response was received
+    failure_text VARCHAR(255) NULL,    -- browser error, e.g. net::ERR_NAME_NOT_RESOLVED
+    resource_type VARCHAR(30) NOT NULL,
+    duration_ms INT NULL,
+    occurrence_count INT NOT NULL DEFAULT 1,
+    logged_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY (check_id) REFERENCES url_checks(check_id) ON DELETE CASCADE,
+
+    INDEX idx_check_id (check_id)
+);
@@ -89,7 +89,7 @@ INSERT INTO detected_failures (check_id, url_id, client_id, test_id, variant, er
 (5, 7, 3, 'nav_menu_test', 'variant_b', 'js_error', 'Cannot access property before initialization', 'Chrome Mobile', DATE_SUB(NOW(), INTERVAL 7 DAY), DATE_SUB(NOW(), INTERVAL 7 DAY), 'resolved', 1, 'Hoisting issue corrected');
 
 -- Insert sample failure screenshots
-INSERT INTO failure_screenshots (failure_id, file_path, captured_at) VALUES
+INSERT INTO artifacts (failure_id, file_path, captured_at) VALUES
 (1, 'screenshots/failure_1_20260116_143022.png', DATE_SUB(NOW(), INTERVAL 1 DAY)),
 (2, 'screenshots/failure_2_20260116_143156.png', DATE_SUB(NOW(), INTERVAL 1 DAY)),
 (3, 'screenshots/failure_3_20260116_144512.png', DATE_SUB(NOW(), INTERVAL 1 DAY)),
@@ -30,6 +30,28 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 import { format, subDays } from 'date-fns';
+import type { VariantVitalSummary, WebVitalMetric } from '@/types';
+
+const VITAL_METRICS: WebVitalMetric[] = ['LCP', 'CLS', 'INP', 'TTFB'];
+
+// Upper bounds of the "good" and "needs improvement" ranges for each metric
+const VITAL_THRESHOLDS: Record<WebVitalMetric, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  TTFB: [800, 1800],
+};
+
+function formatVital(metric: WebVitalMetric, value: number): string {
+  return metric === 'CLS' ? value.toFixed(3) : `${Math.round(value).toLocaleString()} ms`;
+}
+
+function vitalColor(metric: WebVitalMetric, value: number): string {
+  const [good, poor] = VITAL_THRESHOLDS[metric];
+  if (value <= good) return 'text-green-600';
+  if (value <= poor) return 'text-yellow-600';
+  return 'text-red-600';
+}
 
 const COLORS = [
   '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6',
@@ -74,6 +96,29 @@ export default function AnalyticsPage() {
     queryFn: () => analyticsApi.getTopErrors(10),
   });
 
+  const { data: errorRates = [] } = useQuery({
+    queryKey: ['analytics', 'error-rates', 30],
+    queryFn: () => analyticsApi.getErrorRates(30),
+  });
+
+  const { data: vitals = [] } = useQuery({
+    queryKey: ['analytics', 'vitals', 30],
+    queryFn: () => analyticsApi.getVitals(30),
+  });
+
+  // One row per test variant, with the p75 of each metric
+  const vitalRows = vitals.reduce<
+    { testId: string; variant: string; metrics: Partial<Record<WebVitalMetric, VariantVitalSummary>> }[]
+  >((rows, vital) => {
+    let row = rows.find((r) => r.testId === vital.testId && r.variant === vital.variant);
+    if (!row) {
+      row = { testId: vital.testId, variant: vital.variant, metrics: {} };
+      rows.push(row);
+    }
+    row.metrics[vital.metric] = vital;
+    return rows;
+  }, []);
+
   const handleApplyDateRange = () => {
     setActiveDateRange(dateRange);
     // In a real implementation, this would refetch data with the new date range
@@ -453,6 +498,121 @@ export default function AnalyticsPage() {
         )}
       </div>
 
+      {/* Error Rate by Variant */}
+      {errorRates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Error Rate by Variant (Last 30 Days)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Test
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Variant
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Exposures
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Failures
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Error Rate
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {errorRates.map((rate) => (
+                    <tr
+                      key={`${rate.testId}-${rate.variant}`}
+                      className="border-b border-gray-100 hover:bg-gray-50"
+                    >
+                      <td className="py-3 px-4 text-sm text-gray-900">{rate.testId}</td>
+                      <td className="py-3 px-4 text-sm text-gray-900">{rate.variant}</td>
+                      <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                        {rate.exposures.toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-900 text-right">
+                        {rate.failures.toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-900 text-right font-medium">
+                        {(rate.errorRate * 100).toFixed(2)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Core Web Vitals by Variant */}
+      {vitalRows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Core Web Vitals by Variant (p75, Last 30 Days)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Test
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Variant
+                    </th>
+                    {VITAL_METRICS.map((metric) => (
+                      <th
+                        key={metric}
+                        className="text-right py-3 px-4 text-sm font-semibold text-gray-700"
+                      >
+                        {metric}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {vitalRows.map((row) => (
+                    <tr
+                      key={`${row.testId}-${row.variant}`}
+                      className="border-b border-gray-100 hover:bg-gray-50"
+                    >
+                      <td className="py-3 px-4 text-sm text-gray-900">{row.testId}</td>
+                      <td className="py-3 px-4 text-sm text-gray-900">{row.variant}</td>
+                      {VITAL_METRICS.map((metric) => {
+                        const vital = row.metrics[metric];
+                        return (
+                          <td key={metric} className="py-3 px-4 text-sm text-right">
+                            {vital ? (
+                              <span
+                                className={`font-medium ${vitalColor(metric, vital.p75)}`}
+                                title={`${vital.samples.toLocaleString()} samples, average ${formatVital(metric, vital.average)}`}
+                              >
+                                {formatVital(metric, vital.p75)}
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Failures by Status */}
       {overview?.failuresByStatus && overview.failuresByStatus.length > 0 && (
         <Card>
@@ -225,6 +225,9 @@ export default function BrowsersPage() {
                           ? `${browser.viewportWidth} × ${browser.viewportHeight}`
                           : '-'}
                       </span>
+                      {!!browser.recordVideo && (
+                        <Badge variant="info" size="sm" className="ml-2">Video</Badge>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <button
@@ -17,15 +17,24 @@ import {
   XCircle,
   Calendar,
   AlertCircle,
+  KeyRound,
+  RefreshCw,
+  FileCode,
+  Upload,
+  ShieldCheck,
+  Tags,
 } from 'lucide-react';
 import { format } from 'date-fns';
-import { clientsApi, urlsApi } from '@/lib/api';
+import { clientsApi, urlsApi, sourceMapsApi } from '@/lib/api';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { ClientForm } from '@/components/clients/ClientForm';
 import { UrlForm } from '@/components/urls/UrlForm';
-import type { Client, MonitoredUrl } from '@/types';
+import { SourceMapForm } from '@/components/clients/SourceMapForm';
+import { ScrubRuleForm } from '@/components/clients/ScrubRuleForm';
+import { ErrorTypeForm } from '@/components/clients/ErrorTypeForm';
+import type { Client, MonitoredUrl, SourceMap, ScrubRule, CustomErrorType } from '@/types';
 
 interface ClientDetailPageProps {
   params: {
@@ -42,6 +51,9 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
   const [isUrlFormOpen, setIsUrlFormOpen] = useState(false);
   const [editingUrl, setEditingUrl] = useState<MonitoredUrl | null>(null);
   const [deletingUrlId, setDeletingUrlId] = useState<number | null>(null);
+  const [isSourceMapFormOpen, setIsSourceMapFormOpen] = useState(false);
+  const [isScrubRuleFormOpen, setIsScrubRuleFormOpen] = useState(false);
+  const [isErrorTypeFormOpen, setIsErrorTypeFormOpen] = useState(false);
 
   // Fetch client data
   const {
@@ -63,6 +75,24 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
     queryFn: () => urlsApi.getUrls(clientId),
   });
 
+  // Fetch source maps uploaded for this client's tests
+  const { data: sourceMaps = [] } = useQuery<SourceMap[]>({
+    queryKey: ['sourceMaps', clientId],
+    queryFn: () => sourceMapsApi.getSourceMaps(clientId),
+  });
+
+  // Fetch custom PII scrubbing rules
+  const { data: scrubRules = [] } = useQuery<ScrubRule[]>({
+    queryKey: ['scrubRules', clientId],
+    queryFn: () => clientsApi.getScrubRules(clientId),
+  });
+
+  // Fetch custom error type codes
+  const { data: errorTypes = [] } = useQuery<CustomErrorType[]>({
+    queryKey: ['errorTypes', clientId],
+    queryFn: () => clientsApi.getErrorTypes(clientId),
+  });
+
   // Toggle client active status
   const toggleStatusMutation = useMutation({
     mutationFn: () => clientsApi.toggleClientStatus(clientId),
@@ -72,6 +102,14 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
     },
   });
 
+  // Regenerate site key used by the SDK transport
+  const regenerateSiteKeyMutation = useMutation({
+    mutationFn: () => clientsApi.regenerateSiteKey(clientId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId] });
+    },
+  });
+
   // Delete client
   const deleteClientMutation = useMutation({
     mutationFn: () => clientsApi.deleteClient(clientId),
@@ -90,6 +128,30 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
     },
   });
 
+  // Delete source map
+  const deleteSourceMapMutation = useMutation({
+    mutationFn: (sourceMapId: number) => sourceMapsApi.deleteSourceMap(sourceMapId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sourceMaps', clientId] });
+    },
+  });
+
+  // Delete scrub rule
+  const deleteScrubRuleMutation = useMutation({
+    mutationFn: (ruleId: number) => clientsApi.deleteScrubRule(clientId, ruleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scrubRules', clientId] });
+    },
+  });
+
+  // Delete custom error type
+  const deleteErrorTypeMutation = useMutation({
+    mutationFn: (errorTypeId: number) => clientsApi.deleteErrorType(clientId, errorTypeId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['errorTypes', clientId] });
+    },
+  });
+
   // Toggle URL active status
   const toggleUrlActiveMutation = useMutation({
     mutationFn: (urlId: number) => urlsApi.toggleUrlActive(urlId),
@@ -116,6 +178,16 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
     }
   };
 
+  const handleRegenerateSiteKey = () => {
+    if (
+      window.confirm(
+        'Regenerate the site key? Pages using the current key will stop reporting real-user errors until they are updated.'
+      )
+    ) {
+      regenerateSiteKeyMutation.mutate();
+    }
+  };
+
   const handleDeleteUrl = (url: MonitoredUrl) => {
     if (
       window.confirm(
@@ -126,6 +198,28 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
     }
   };
 
+  const handleDeleteSourceMap = (sourceMap: SourceMap) => {
+    if (window.confirm(`Delete the source map for "${sourceMap.fileUrl}"?`)) {
+      deleteSourceMapMutation.mutate(sourceMap.sourceMapId);
+    }
+  };
+
+  const handleDeleteScrubRule = (rule: ScrubRule) => {
+    if (window.confirm(`Delete the scrub rule "${rule.pattern}"?`)) {
+      deleteScrubRuleMutation.mutate(rule.ruleId);
+    }
+  };
+
+  const handleDeleteErrorType = (errorType: CustomErrorType) => {
+    if (
+      window.confirm(
+        `Delete error type ${errorType.code}? Errors logged with this code will be stored as "${errorType.code}".`
+      )
+    ) {
+      deleteErrorTypeMutation.mutate(errorType.errorTypeId);
+    }
+  };
+
   const handleEditUrl = (url: MonitoredUrl) => {
     setEditingUrl(url);
     setIsUrlFormOpen(true);
@@ -258,6 +352,25 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
                 </p>
               </div>
             </div>
+            <div className="flex items-center gap-3">
+              <KeyRound className="w-5 h-5 text-gray-400" />
+              <div className="min-w-0">
+                <p className="text-xs text-gray-500">Site Key (real-user error reporting)</p>
+                <div className="flex items-center gap-2">
+                  <code className="text-sm font-medium text-gray-900 truncate">
+                    {client.siteKey || 'Not generated'}
+                  </code>
+                  <button
+                    onClick={handleRegenerateSiteKey}
+                    disabled={regenerateSiteKeyMutation.isPending}
+                    className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+                    title={client.siteKey ? 'Regenerate site key' : 'Generate site key'}
+                  >
+                    <RefreshCw className={`w-4 h-4 ${regenerateSiteKeyMutation.isPending ? 'animate-spin' : ''}`} />
+                  </button>
+                </div>
+              </div>
+            </div>
           </div>
           {client.notes && (
             <div className="mt-4 pt-4 border-t border-gray-200">
@@ -418,6 +531,218 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
         </CardContent>
       </Card>
 
+      {/* Source Maps Section */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Source Maps ({sourceMaps.length})</CardTitle>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => setIsSourceMapFormOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              Upload Source Map
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {sourceMaps.length === 0 ? (
+            <div className="text-center py-8">
+              <FileCode className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">
+                Upload source maps for minified variant code to see original stack frames on failures
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Test ID
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Script URL
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Uploaded
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sourceMaps.map((sourceMap) => (
+                    <tr key={sourceMap.sourceMapId} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm text-gray-900">{sourceMap.testId}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600 break-all">{sourceMap.fileUrl}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {format(new Date(sourceMap.uploadedAt), 'MMM d, yyyy HH:mm')}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteSourceMap(sourceMap)}
+                            className="flex items-center gap-1 text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Scrubbing Rules Section */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Scrubbing Rules ({scrubRules.length})</CardTitle>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => setIsScrubRuleFormOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {scrubRules.length === 0 ? (
+            <div className="text-center py-8">
+              <ShieldCheck className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">
+                Emails, tokens and card numbers are always redacted. Add regex rules for other
+                client-specific data.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Pattern
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Replacement
+                    </th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Description
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scrubRules.map((rule) => (
+                    <tr key={rule.ruleId} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm font-mono text-gray-900 break-all">{rule.pattern}</td>
+                      <td className="py-3 px-4 text-sm font-mono text-gray-600">{rule.replacement}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{rule.description || '-'}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteScrubRule(rule)}
+                            className="flex items-center gap-1 text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Custom Error Types Section */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Custom Error Types ({errorTypes.length})</CardTitle>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => setIsErrorTypeFormOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add Error Type
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {errorTypes.length === 0 ? (
+            <div className="text-center py-8">
+              <Tags className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">
+                Register codes like CK (checkout) and pass them to the SDK&apos;s errorTypes option
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Code</th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Name</th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">
+                      Description
+                    </th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {errorTypes.map((errorType) => (
+                    <tr key={errorType.errorTypeId} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-3 px-4 text-sm font-mono text-gray-900">{errorType.code}</td>
+                      <td className="py-3 px-4 text-sm font-mono text-gray-600">{errorType.name}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{errorType.description || '-'}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center justify-end">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteErrorType(errorType)}
+                            className="flex items-center gap-1 text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                            Delete
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Client Form Modal */}
       <ClientForm
         isOpen={isEditModalOpen}
@@ -434,6 +759,27 @@ export default function ClientDetailPage({ params }: ClientDetailPageProps) {
         url={editingUrl}
         mode={editingUrl ? 'edit' : 'create'}
       />
+
+      {/* Source Map Upload Modal */}
+      <SourceMapForm
+        isOpen={isSourceMapFormOpen}
+        onClose={() => setIsSourceMapFormOpen(false)}
+        clientId={clientId}
+      />
+
+      {/* Scrub Rule Modal */}
+      <ScrubRuleForm
+        isOpen={isScrubRuleFormOpen}
+        onClose={() => setIsScrubRuleFormOpen(false)}
+        clientId={clientId}
+      />
+
+      {/* Error Type Modal */}
+      <ErrorTypeForm
+        isOpen={isErrorTypeFormOpen}
+        onClose={() => setIsErrorTypeFormOpen(false)}
+        clientId={clientId}
+      />
     </div>
   );
 }
@@ -22,6 +22,10 @@ import {
   Image as ImageIcon,
   Save,
   ExternalLink,
+  Code,
+  Download,
+  Paperclip,
+  Video,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import type { FailureWithDetails } from '@/types';
@@ -46,6 +50,8 @@ export default function FailureDetailPage() {
   const [selectedStatus, setSelectedStatus] = useState<string>('');
   const [notes, setNotes] = useState<string>('');
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [videoError, setVideoError] = useState(false);
 
   // Fetch failure details
   const { data: failure, isLoading, error } = useQuery({
@@ -86,6 +92,11 @@ export default function FailureDetailPage() {
     },
   });
 
+  // Download a HAR file or trace through the authenticated API
+  const downloadArtifactMutation = useMutation({
+    mutationFn: (kind: 'har' | 'trace') => failuresApi.downloadArtifact(failureId, kind),
+  });
+
   // Initialize states when failure loads
   React.useEffect(() => {
     if (failure) {
@@ -94,6 +105,33 @@ export default function FailureDetailPage() {
     }
   }, [failure]);
 
+  // Load the video through the authenticated API and free it when leaving the page
+  const hasVideo = !!failure?.artifacts?.some((artifact) => artifact.kind === 'video');
+  React.useEffect(() => {
+    if (!hasVideo) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setVideoError(false);
+    failuresApi
+      .getVideoObjectUrl(failureId)
+      .then((url) => {
+        if (cancelled) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        objectUrl = url;
+        setVideoUrl(url);
+      })
+      .catch(() => setVideoError(true));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setVideoUrl(null);
+    };
+  }, [failureId, hasVideo]);
+
   const handleStatusUpdate = () => {
     if (selectedStatus && selectedStatus !== failure?.resolutionStatus) {
       updateStatusMutation.mutate(selectedStatus);
@@ -110,6 +148,8 @@ export default function FailureDetailPage() {
     ? failuresApi.getScreenshotUrl(failureId)
     : null;
 
+  const artifactKinds = new Set(failure?.artifacts?.map((artifact) => artifact.kind));
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -194,7 +234,9 @@ export default function FailureDetailPage() {
                   </label>
                   <div className="flex items-center text-gray-900">
                     <Chrome className="w-4 h-4 mr-2 text-gray-500" />
-                    {failure.browserName} ({failure.deviceType})
+                    {failure.browserName
+                      ? `${failure.browserName} (${failure.deviceType})`
+                      : failure.browserFromCookie || 'Unknown'}
                   </div>
                 </div>
 
@@ -231,6 +273,11 @@ export default function FailureDetailPage() {
                   </label>
                   <div className="text-gray-900 font-mono text-sm">
                     {failure.variant}
+                    {failure.forcedVariant && (
+                      <span className="ml-2 font-sans text-xs text-gray-500">
+                        (forced {failure.forcedVariant})
+                      </span>
+                    )}
                   </div>
                 </div>
 
@@ -241,6 +288,24 @@ export default function FailureDetailPage() {
                   <Badge variant="info">{failure.errorType}</Badge>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Source
+                  </label>
+                  <Badge variant={failure.source === 'rum' ? 'secondary' : failure.source === 'console' ? 'warning' : 'default'}>
+                    {failure.source === 'rum' ? 'Real user' : failure.source === 'console' ? 'Crawler console' : 'Crawler'}
+                  </Badge>
+                </div>
+
+                {failure.occurrenceCount > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Occurrences
+                    </label>
+                    <div className="text-gray-900">{failure.occurrenceCount}</div>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Detected At
@@ -280,6 +345,47 @@ export default function FailureDetailPage() {
             </CardContent>
           </Card>
 
+          {/* Stack Trace */}
+          {failure.stackTrace && failure.stackTrace.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Code className="w-5 h-5 mr-2" />
+                  Stack Trace
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ol className="bg-gray-50 border border-gray-200 rounded-md p-3 space-y-1 font-mono text-xs">
+                  {failure.stackTrace.map((frame, index) => {
+                    const original = failure.symbolicatedStackTrace?.[index];
+                    return (
+                      <li key={index} className="break-all">
+                        {original && (
+                          <div>
+                            <span className="text-gray-900">
+                              {original.functionName || frame.functionName || '<anonymous>'}
+                            </span>
+                            <span className="text-blue-700">
+                              {' '}at {original.file}:{original.line}:{original.column}
+                            </span>
+                          </div>
+                        )}
+                        <div className={original ? 'pl-4 text-gray-400' : ''}>
+                          {!original && (
+                            <span className="text-gray-900">{frame.functionName || '<anonymous>'}</span>
+                          )}
+                          <span className={original ? '' : 'text-gray-500'}>
+                            {' '}{original ? 'minified' : 'at'} {frame.file}:{frame.line}:{frame.column}
+                          </span>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Screenshot */}
           {screenshotUrl && (
             <Card>
@@ -311,6 +417,76 @@ export default function FailureDetailPage() {
             </Card>
           )}
 
+          {/* Video */}
+          {hasVideo && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Video className="w-5 h-5 mr-2" />
+                  Video
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {videoError ? (
+                  <p className="text-sm text-red-600">The video could not be loaded. It may have been removed from the server.</p>
+                ) : videoUrl ? (
+                  <video
+                    src={videoUrl}
+                    controls
+                    className="w-full rounded-lg border border-gray-200 shadow-sm bg-black"
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">Loading video...</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* HAR and trace */}
+          {(artifactKinds.has('har') || artifactKinds.has('trace')) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Paperclip className="w-5 h-5 mr-2" />
+                  Debug Artifacts
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex gap-2">
+                  {artifactKinds.has('har') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadArtifactMutation.mutate('har')}
+                      disabled={downloadArtifactMutation.isPending}
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      HAR File
+                    </Button>
+                  )}
+                  {artifactKinds.has('trace') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadArtifactMutation.mutate('trace')}
+                      disabled={downloadArtifactMutation.isPending}
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      Playwright Trace
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Open the trace with <code>npx playwright show-trace</code> or at trace.playwright.dev.
+                  The HAR opens in the browser devtools Network tab.
+                </p>
+                {downloadArtifactMutation.isError && (
+                  <p className="text-sm text-red-600">The file could not be downloaded. It may have been removed from the server.</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Related Failures */}
           {filteredRelatedFailures.length > 0 && (
             <Card>
@@ -339,7 +515,7 @@ export default function FailureDetailPage() {
                             </span>
                           </div>
                           <p className="text-sm text-gray-900 truncate">
-                            {related.clientName} - {related.browserName}
+                            {related.clientName} - {related.browserName || related.browserFromCookie || 'Unknown'}
                           </p>
                         </div>
                         <ExternalLink className="w-4 h-4 text-gray-400" />
@@ -26,6 +26,7 @@ interface FormData {
   viewportWidth: string;
   viewportHeight: string;
   userAgent: string;
+  recordVideo: boolean;
   isActive: boolean;
 }
 
@@ -66,6 +67,7 @@ export const BrowserForm: React.FC<BrowserFormProps> = ({
     viewportWidth: '',
     viewportHeight: '',
     userAgent: '',
+    recordVideo: false,
     isActive: true,
   });
   const [errors, setErrors] = useState<FormErrors>({});
@@ -80,6 +82,7 @@ export const BrowserForm: React.FC<BrowserFormProps> = ({
         viewportWidth: browser.viewportWidth?.toString() || '',
         viewportHeight: browser.viewportHeight?.toString() || '',
         userAgent: browser.userAgent || '',
+        recordVideo: !!browser.recordVideo,
         isActive: browser.isActive,
       });
     } else {
@@ -91,6 +94,7 @@ export const BrowserForm: React.FC<BrowserFormProps> = ({
         viewportWidth: '',
         viewportHeight: '',
         userAgent: '',
+        recordVideo: false,
         isActive: true,
       });
     }
@@ -159,6 +163,7 @@ export const BrowserForm: React.FC<BrowserFormProps> = ({
       viewportWidth: formData.viewportWidth ? parseInt(formData.viewportWidth, 10) : undefined,
       viewportHeight: formData.viewportHeight ? parseInt(formData.viewportHeight, 10) : undefined,
       userAgent: formData.userAgent.trim() || undefined,
+      recordVideo: formData.recordVideo,
       isActive: formData.isActive,
     };
 
@@ -178,6 +183,7 @@ export const BrowserForm: React.FC<BrowserFormProps> = ({
       viewportWidth: '',
       viewportHeight: '',
       userAgent: '',
+      recordVideo: false,
       isActive: true,
     });
     setErrors({});
@@ -277,6 +283,14 @@ export const BrowserForm: React.FC<BrowserFormProps> = ({
             disabled={isLoading}
           />
 
+          <Checkbox
+            label="Record Video"
+            checked={formData.recordVideo}
+            onChange={(e) => setFormData({ ...formData, recordVideo: e.target.checked })}
+            disabled={isLoading}
+            helperText="Record each check and keep the video when it finds errors or fails"
+          />
+
           <Checkbox
             label="Active"
             checked={formData.isActive}
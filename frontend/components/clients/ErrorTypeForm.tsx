@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { clientsApi } from '@/lib/api';
+import type { CreateCustomErrorTypeRequest } from '@/types';
+
+export interface ErrorTypeFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId: number;
+}
+
+interface FormData {
+  code: string;
+  name: string;
+  description: string;
+}
+
+interface FormErrors {
+  code?: string;
+  name?: string;
+}
+
+export const ErrorTypeForm: React.FC<ErrorTypeFormProps> = ({ isOpen, onClose, clientId }) => {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<FormData>({ code: '', name: '', description: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  useEffect(() => {
+    setFormData({ code: '', name: '', description: '' });
+    setErrors({});
+  }, [isOpen]);
+
+  const createMutation = useMutation({
+    mutationFn: (data: CreateCustomErrorTypeRequest) => clientsApi.createErrorType(clientId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['errorTypes', clientId] });
+      onClose();
+    },
+  });
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!/^[A-Z][A-Z0-9]{1,3}$/.test(formData.code.trim())) {
+      newErrors.code = '2-4 uppercase letters or digits, starting with a letter';
+    }
+
+    if (!/^[a-z][a-z0-9_]*$/.test(formData.name.trim())) {
+      newErrors.name = 'Lowercase letters, digits and underscores';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    createMutation.mutate({
+      code: formData.code.trim(),
+      name: formData.name.trim(),
+      description: formData.description.trim() || undefined,
+    });
+  };
+
+  const isLoading = createMutation.isPending;
+  const error = createMutation.error;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Add Error Type" size="md">
+      <form onSubmit={handleSubmit}>
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">
+                {error instanceof Error ? error.message : 'An error occurred'}
+              </p>
+            </div>
+          )}
+
+          <Input
+            label="Code"
+            value={formData.code}
+            onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+            error={errors.code}
+            helperText="Short code the SDK writes to the cookie"
+            placeholder="CK"
+            maxLength={4}
+            required
+            disabled={isLoading}
+          />
+
+          <Input
+            label="Name"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            error={errors.name}
+            helperText="Stored as the failure's error type"
+            placeholder="checkout_error"
+            required
+            disabled={isLoading}
+          />
+
+          <Input
+            label="Description"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="Checkout flow failures"
+            disabled={isLoading}
+          />
+        </div>
+
+        <ModalFooter className="mt-6">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" isLoading={isLoading}>
+            Add Error Type
+          </Button>
+        </ModalFooter>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,130 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { clientsApi } from '@/lib/api';
+import type { CreateScrubRuleRequest } from '@/types';
+
+export interface ScrubRuleFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId: number;
+}
+
+interface FormData {
+  pattern: string;
+  replacement: string;
+  description: string;
+}
+
+interface FormErrors {
+  pattern?: string;
+}
+
+export const ScrubRuleForm: React.FC<ScrubRuleFormProps> = ({ isOpen, onClose, clientId }) => {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<FormData>({ pattern: '', replacement: '', description: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  useEffect(() => {
+    setFormData({ pattern: '', replacement: '', description: '' });
+    setErrors({});
+  }, [isOpen]);
+
+  const createMutation = useMutation({
+    mutationFn: (data: CreateScrubRuleRequest) => clientsApi.createScrubRule(clientId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scrubRules', clientId] });
+      onClose();
+    },
+  });
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.pattern.trim()) {
+      newErrors.pattern = 'Pattern is required';
+    } else {
+      try {
+        new RegExp(formData.pattern.trim());
+      } catch {
+        newErrors.pattern = 'Invalid regular expression';
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    createMutation.mutate({
+      pattern: formData.pattern.trim(),
+      replacement: formData.replacement || undefined,
+      description: formData.description.trim() || undefined,
+    });
+  };
+
+  const isLoading = createMutation.isPending;
+  const error = createMutation.error;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Add Scrubbing Rule" size="md">
+      <form onSubmit={handleSubmit}>
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">
+                {error instanceof Error ? error.message : 'An error occurred'}
+              </p>
+            </div>
+          )}
+
+          <Input
+            label="Pattern"
+            value={formData.pattern}
+            onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+            error={errors.pattern}
+            helperText="Regular expression matched against error messages before they are stored"
+            placeholder="ORD-\d+"
+            required
+            disabled={isLoading}
+          />
+
+          <Input
+            label="Replacement"
+            value={formData.replacement}
+            onChange={(e) => setFormData({ ...formData, replacement: e.target.value })}
+            placeholder="[redacted]"
+            disabled={isLoading}
+          />
+
+          <Input
+            label="Description"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="Order numbers"
+            disabled={isLoading}
+          />
+        </div>
+
+        <ModalFooter className="mt-6">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" isLoading={isLoading}>
+            Add Rule
+          </Button>
+        </ModalFooter>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Modal, ModalFooter } from '@/components/ui/Modal';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { sourceMapsApi } from '@/lib/api';
+import type { UploadSourceMapRequest } from '@/types';
+
+export interface SourceMapFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId: number;
+}
+
+interface FormData {
+  testId: string;
+  fileUrl: string;
+  file: File | null;
+}
+
+interface FormErrors {
+  testId?: string;
+  fileUrl?: string;
+  file?: string;
+}
+
+export const SourceMapForm: React.FC<SourceMapFormProps> = ({ isOpen, onClose, clientId }) => {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<FormData>({ testId: '', fileUrl: '', file: null });
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  useEffect(() => {
+    setFormData({ testId: '', fileUrl: '', file: null });
+    setErrors({});
+  }, [isOpen]);
+
+  const uploadMutation = useMutation({
+    mutationFn: (data: UploadSourceMapRequest) => sourceMapsApi.uploadSourceMap(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sourceMaps', clientId] });
+      onClose();
+    },
+  });
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.testId.trim()) {
+      newErrors.testId = 'Test ID is required';
+    }
+
+    if (!formData.fileUrl.trim()) {
+      newErrors.fileUrl = 'Script URL is required';
+    }
+
+    if (!formData.file) {
+      newErrors.file = 'Choose a .map file';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm() || !formData.file) {
+      return;
+    }
+
+    uploadMutation.mutate({
+      clientId,
+      testId: formData.testId.trim(),
+      fileUrl: formData.fileUrl.trim(),
+      sourceMap: await formData.file.text(),
+    });
+  };
+
+  const isLoading = uploadMutation.isPending;
+  const error = uploadMutation.error;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Upload Source Map" size="md">
+      <form onSubmit={handleSubmit}>
+        <div className="space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">
+                {error instanceof Error ? error.message : 'An error occurred'}
+              </p>
+            </div>
+          )}
+
+          <Input
+            label="Test ID"
+            value={formData.testId}
+            onChange={(e) => setFormData({ ...formData, testId: e.target.value })}
+            error={errors.testId}
+            placeholder="homepage_hero_v2"
+            required
+            disabled={isLoading}
+          />
+
+          <Input
+            label="Script URL"
+            value={formData.fileUrl}
+            onChange={(e) => setFormData({ ...formData, fileUrl: e.target.value })}
+            error={errors.fileUrl}
+            helperText="URL or path of the minified script this map belongs to"
+            placeholder="https://example.com/static/variant-b.min.js"
+            required
+            disabled={isLoading}
+          />
+
+          <Input
+            label="Source Map"
+            type="file"
+            accept=".map,application/json"
+            onChange={(e) => setFormData({ ...formData, file: e.target.files?.[0] || null })}
+            error={errors.file}
+            disabled={isLoading}
+          />
+        </div>
+
+        <ModalFooter className="mt-6">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" isLoading={isLoading}>
+            Upload
+          </Button>
+        </ModalFooter>
+      </form>
+    </Modal>
+  );
+};
@@ -72,6 +72,21 @@ export const FailureCard: React.FC<FailureCardProps> = ({
                 <Badge variant="info" size="sm">
                   {failure.errorType}
                 </Badge>
+                {failure.source === 'rum' && (
+                  <Badge variant="secondary" size="sm">
+                    Real user
+                  </Badge>
+                )}
+                {failure.source === 'console' && (
+                  <Badge variant="warning" size="sm">
+                    Console
+                  </Badge>
+                )}
+                {failure.occurrenceCount > 1 && (
+                  <Badge variant="warning" size="sm">
+                    ×{failure.occurrenceCount}
+                  </Badge>
+                )}
               </div>
               <h3 className="text-lg font-semibold text-gray-900 mb-1">
                 {failure.testId} - {failure.variant}
@@ -101,7 +116,11 @@ export const FailureCard: React.FC<FailureCardProps> = ({
           <div className="flex items-center text-sm text-gray-600">
             <Chrome className="w-4 h-4 mr-2 flex-shrink-0" />
             <span className="font-medium mr-1">Browser:</span>
-            <span>{failure.browserName} ({failure.deviceType})</span>
+            <span>
+              {failure.browserName
+                ? `${failure.browserName} (${failure.deviceType})`
+                : failure.browserFromCookie || 'Unknown'}
+            </span>
           </div>
 
           {/* Error Message */}
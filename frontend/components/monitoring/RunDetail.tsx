@@ -1,11 +1,11 @@
 'use client';
 
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import { monitoringApi } from '@/lib/api';
 import { Badge } from '@/components/ui/Badge';
-import { CheckCircle, XCircle, Clock, AlertTriangle, WifiOff, Globe, Monitor } from 'lucide-react';
-import type { UrlCheckWithDetails } from '@/types';
+import { CheckCircle, XCircle, Clock, AlertTriangle, WifiOff, Globe, Monitor, Terminal, Network } from 'lucide-react';
+import type { UrlCheckWithDetails, JourneyStepTiming, ConsoleMessage } from '@/types';
 
 export interface RunDetailProps {
   runId: number;
@@ -17,6 +17,26 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId }) => {
     queryFn: () => monitoringApi.getRunChecks(runId),
   });
 
+  const hasConsoleMessages = !!checks?.some(check => check.consoleMessageCount > 0);
+  const { data: consoleMessages } = useQuery({
+    queryKey: ['run-console', runId],
+    queryFn: () => monitoringApi.getRunConsole(runId),
+    enabled: hasConsoleMessages,
+  });
+
+  const hasNetworkFailures = !!checks?.some(check => check.networkFailureCount > 0);
+  const { data: networkFailures } = useQuery({
+    queryKey: ['run-network', runId],
+    queryFn: () => monitoringApi.getRunNetwork(runId),
+    enabled: hasNetworkFailures,
+  });
+
+  // Download a check's HAR file, trace or video through the authenticated API
+  const downloadArtifactMutation = useMutation({
+    mutationFn: ({ checkId, kind }: { checkId: number; kind: 'har' | 'trace' | 'video' }) =>
+      monitoringApi.downloadCheckArtifact(checkId, kind),
+  });
+
   const getCheckStatusIcon = (checkStatus: string) => {
     switch (checkStatus) {
       case 'success':
@@ -62,6 +82,18 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId }) => {
     return url.substring(0, maxLength - 3) + '...';
   };
 
+  // One line per journey step, for the timing tooltip
+  const formatStepTimings = (timings: JourneyStepTiming[]) =>
+    timings
+      .map(t => `${t.step}. ${t.action} - ${t.durationMs}ms${t.error ? ` (${t.error})` : ''}`)
+      .join('\n');
+
+  const formatConsoleLocation = (message: ConsoleMessage) => {
+    if (!message.sourceUrl) return null;
+    const file = message.sourceUrl.split('/').pop() || message.sourceUrl;
+    return message.lineNumber !== null ? `${file}:${message.lineNumber}:${message.columnNumber}` : file;
+  };
+
   // Group checks by status for summary
   const getStatusSummary = (checks: UrlCheckWithDetails[]) => {
     const summary = {
@@ -197,6 +229,68 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId }) => {
                       <p className="text-sm text-gray-900 font-medium truncate" title={check.url}>
                         {check.urlLabel || truncateUrl(check.url)}
                       </p>
+                      {check.forcedVariant && (
+                        <Badge variant="info" size="sm" className="mt-0.5">Variant {check.forcedVariant}</Badge>
+                      )}
+                      {check.stepTimings && check.stepTimings.length > 0 && (
+                        <p
+                          className={`text-xs ${check.failedStep ? 'text-red-600' : 'text-gray-500'}`}
+                          title={formatStepTimings(check.stepTimings)}
+                        >
+                          {check.failedStep
+                            ? `Journey failed at step ${check.failedStep}`
+                            : `Journey: ${check.stepTimings.length} steps`}
+                          {' · '}
+                          {check.stepTimings.reduce((total, t) => total + t.durationMs, 0)}ms
+                        </p>
+                      )}
+                      {check.consoleMessageCount > 0 && (
+                        <p className="text-xs text-amber-700">
+                          {check.consoleMessageCount} console {check.consoleMessageCount === 1 ? 'error' : 'errors'}
+                        </p>
+                      )}
+                      {check.networkFailureCount > 0 && (
+                        <p className="text-xs text-red-600">
+                          {check.networkFailureCount} failed {check.networkFailureCount === 1 ? 'request' : 'requests'}
+                        </p>
+                      )}
+                      {(!!check.hasHar || !!check.hasTrace || !!check.hasVideo) && (
+                        <p className="text-xs text-gray-500 flex items-center gap-2">
+                          {!!check.hasHar && (
+                            <button
+                              type="button"
+                              className="text-blue-600 hover:underline"
+                              onClick={() => downloadArtifactMutation.mutate({ checkId: check.checkId, kind: 'har' })}
+                              disabled={downloadArtifactMutation.isPending}
+                            >
+                              HAR
+                            </button>
+                          )}
+                          {!!check.hasTrace && (
+                            <button
+                              type="button"
+                              className="text-blue-600 hover:underline"
+                              onClick={() => downloadArtifactMutation.mutate({ checkId: check.checkId, kind: 'trace' })}
+                              disabled={downloadArtifactMutation.isPending}
+                            >
+                              Trace
+                            </button>
+                          )}
+                          {!!check.hasVideo && (
+                            <button
+                              type="button"
+                              className="text-blue-600 hover:underline"
+                              onClick={() => downloadArtifactMutation.mutate({ checkId: check.checkId, kind: 'video' })}
+                              disabled={downloadArtifactMutation.isPending}
+                            >
+                              Video
+                            </button>
+                          )}
+                        </p>
+                      )}
+                      {downloadArtifactMutation.isError && downloadArtifactMutation.variables?.checkId === check.checkId && (
+                        <p className="text-xs text-red-600">Download failed. The file may have been removed from the server.</p>
+                      )}
                       {check.urlLabel && (
                         <p className="text-xs text-gray-500 truncate" title={check.url}>
                           {truncateUrl(check.url)}
@@ -277,6 +371,9 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId }) => {
                       </p>
                       <Badge variant="warning" size="sm">{check.browserName}</Badge>
                       <Badge variant="default" size="sm" className="capitalize">{check.deviceType}</Badge>
+                      {check.forcedVariant && (
+                        <Badge variant="info" size="sm">Variant {check.forcedVariant}</Badge>
+                      )}
                     </div>
                     {check.urlLabel && (
                       <p className="text-xs text-orange-700 mb-1">{check.url}</p>
@@ -309,6 +406,9 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId }) => {
                       </p>
                       <Badge variant="danger" size="sm">{check.browserName}</Badge>
                       <Badge variant="default" size="sm" className="capitalize">{check.deviceType}</Badge>
+                      {check.forcedVariant && (
+                        <Badge variant="info" size="sm">Variant {check.forcedVariant}</Badge>
+                      )}
                     </div>
                     <p className="text-sm text-red-700">{check.errorMessage}</p>
                   </div>
@@ -317,6 +417,111 @@ export const RunDetail: React.FC<RunDetailProps> = ({ runId }) => {
             ))}
         </div>
       )}
+
+      {/* Console Errors Section - captured with or without the SDK */}
+      {consoleMessages && consoleMessages.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h5 className="text-xs font-semibold text-amber-700 uppercase flex items-center gap-2">
+            <Terminal className="w-4 h-4" />
+            Console Errors ({consoleMessages.length})
+          </h5>
+          {checks
+            .filter(check => check.consoleMessageCount > 0)
+            .map(check => (
+              <div key={check.checkId} className="bg-amber-50 border border-amber-200 rounded-md p-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <p className="text-sm font-medium text-amber-900">
+                    {check.urlLabel || truncateUrl(check.url, 60)}
+                  </p>
+                  <Badge variant="warning" size="sm">{check.browserName}</Badge>
+                  <Badge variant="default" size="sm" className="capitalize">{check.deviceType}</Badge>
+                  {check.forcedVariant && (
+                    <Badge variant="info" size="sm">Variant {check.forcedVariant}</Badge>
+                  )}
+                </div>
+                <ul className="space-y-1">
+                  {consoleMessages
+                    .filter(message => message.checkId === check.checkId)
+                    .map(message => (
+                      <li key={message.messageId} className="text-sm text-amber-800 font-mono break-all">
+                        <span className="font-sans text-xs font-semibold uppercase mr-2">
+                          {message.kind === 'pageerror' ? 'Uncaught' : 'Console'}
+                        </span>
+                        {message.message}
+                        {message.occurrenceCount > 1 && (
+                          <span className="font-sans text-xs ml-2">×{message.occurrenceCount}</span>
+                        )}
+                        {formatConsoleLocation(message) && (
+                          <span className="font-sans text-xs text-amber-600 ml-2" title={message.sourceUrl || undefined}>
+                            {formatConsoleLocation(message)}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {/* Failed Requests Section - failed requests and 4xx/5xx responses */}
+      {networkFailures && networkFailures.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h5 className="text-xs font-semibold text-red-700 uppercase flex items-center gap-2">
+            <Network className="w-4 h-4" />
+            Failed Requests ({networkFailures.length})
+          </h5>
+          {checks
+            .filter(check => check.networkFailureCount > 0)
+            .map(check => (
+              <div key={check.checkId} className="bg-red-50 border border-red-200 rounded-md p-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <p className="text-sm font-medium text-red-900">
+                    {check.urlLabel || truncateUrl(check.url, 60)}
+                  </p>
+                  <Badge variant="danger" size="sm">{check.browserName}</Badge>
+                  <Badge variant="default" size="sm" className="capitalize">{check.deviceType}</Badge>
+                  {check.forcedVariant && (
+                    <Badge variant="info" size="sm">Variant {check.forcedVariant}</Badge>
+                  )}
+                </div>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {networkFailures
+                      .filter(failure => failure.checkId === check.checkId)
+                      .map(failure => (
+                        <tr key={failure.networkFailureId} className="align-top">
+                          <td className="pr-3 py-0.5 whitespace-nowrap font-mono text-xs text-red-800">
+                            {failure.method}
+                          </td>
+                          <td className="pr-3 py-0.5 whitespace-nowrap">
+                            <Badge variant={failure.status === null ? 'warning' : 'danger'} size="sm">
+                              {failure.status ?? 'Failed'}
+                            </Badge>
+                          </td>
+                          <td className="pr-3 py-0.5 whitespace-nowrap text-xs text-red-700">
+                            {failure.resourceType}
+                          </td>
+                          <td className="pr-3 py-0.5 font-mono text-xs text-red-800 break-all" title={failure.url}>
+                            {failure.url}
+                            {failure.failureText && (
+                              <span className="font-sans text-red-600 ml-2">{failure.failureText}</span>
+                            )}
+                            {failure.occurrenceCount > 1 && (
+                              <span className="font-sans ml-2">×{failure.occurrenceCount}</span>
+                            )}
+                          </td>
+                          <td className="py-0.5 whitespace-nowrap text-xs text-red-700 text-right">
+                            {failure.durationMs !== null ? `${failure.durationMs}ms` : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,180 @@
+'use client';
+
+import React from 'react';
+import { ArrowUp, ArrowDown, X, Plus } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Button } from '@/components/ui/Button';
+import type { JourneyStep, JourneyStepAction } from '@/types';
+
+export interface JourneyStepsEditorProps {
+  steps: JourneyStep[];
+  onChange: (steps: JourneyStep[]) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+const ACTION_OPTIONS: { value: JourneyStepAction; label: string }[] = [
+  { value: 'click', label: 'Click' },
+  { value: 'fill', label: 'Fill' },
+  { value: 'hover', label: 'Hover' },
+  { value: 'scroll', label: 'Scroll' },
+  { value: 'navigate', label: 'Navigate' },
+  { value: 'waitForSelector', label: 'Wait for selector' },
+  { value: 'waitForTimeout', label: 'Wait (ms)' },
+];
+
+const SELECTOR_PLACEHOLDERS: Partial<Record<JourneyStepAction, string>> = {
+  click: 'Selector, e.g. #open-cart',
+  fill: 'Selector, e.g. input[name=email]',
+  hover: 'Selector, e.g. .menu',
+  scroll: 'Selector (optional, page bottom if empty)',
+  waitForSelector: 'Selector, e.g. .cart-drawer',
+};
+
+/**
+ * Ordered list of journey steps run before the error cookie is read
+ */
+export const JourneyStepsEditor: React.FC<JourneyStepsEditorProps> = ({
+  steps,
+  onChange,
+  error,
+  disabled,
+}) => {
+  const updateStep = (index: number, changes: Partial<JourneyStep>) => {
+    onChange(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  // Keep only the fields the new action uses
+  const changeAction = (index: number, action: JourneyStepAction) => {
+    const { selector } = steps[index];
+    updateStep(index, {
+      action,
+      selector: action === 'navigate' || action === 'waitForTimeout' ? undefined : selector,
+      url: undefined,
+      value: undefined,
+      timeout: undefined,
+    });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const parseTimeout = (value: string): number | undefined => {
+    const ms = parseInt(value, 10);
+    return Number.isNaN(ms) ? undefined : ms;
+  };
+
+  return (
+    <div className="w-full">
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Journey Steps
+      </label>
+      <p className="text-xs text-gray-500 mb-2">
+        Run in order after the page loads, before errors are read. Use them to reach variants that need an interaction.
+      </p>
+
+      <div className="space-y-2">
+        {steps.map((step, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <span className="mt-2 w-5 text-sm text-gray-500 text-right">{index + 1}.</span>
+
+            <div className="w-40 flex-shrink-0">
+              <Select
+                value={step.action}
+                onChange={(e) => changeAction(index, e.target.value as JourneyStepAction)}
+                options={ACTION_OPTIONS}
+                disabled={disabled}
+              />
+            </div>
+
+            <div className="flex-1 flex gap-2">
+              {step.action === 'navigate' ? (
+                <Input
+                  value={step.url || ''}
+                  onChange={(e) => updateStep(index, { url: e.target.value })}
+                  placeholder="URL or path, e.g. /checkout"
+                  disabled={disabled}
+                />
+              ) : step.action !== 'waitForTimeout' && (
+                <Input
+                  value={step.selector || ''}
+                  onChange={(e) => updateStep(index, { selector: e.target.value })}
+                  placeholder={SELECTOR_PLACEHOLDERS[step.action]}
+                  disabled={disabled}
+                />
+              )}
+
+              {step.action === 'fill' && (
+                <Input
+                  value={step.value || ''}
+                  onChange={(e) => updateStep(index, { value: e.target.value })}
+                  placeholder="Value"
+                  disabled={disabled}
+                />
+              )}
+
+              {step.action === 'waitForTimeout' && (
+                <Input
+                  type="number"
+                  min={1}
+                  value={step.timeout ?? ''}
+                  onChange={(e) => updateStep(index, { timeout: parseTimeout(e.target.value) })}
+                  placeholder="Milliseconds"
+                  disabled={disabled}
+                />
+              )}
+            </div>
+
+            <div className="flex items-center gap-1 mt-1">
+              <button
+                type="button"
+                onClick={() => moveStep(index, -1)}
+                disabled={disabled || index === 0}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveStep(index, 1)}
+                disabled={disabled || index === steps.length - 1}
+                className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove step"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="mt-2"
+        onClick={() => onChange([...steps, { action: 'click' }])}
+        disabled={disabled}
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add Step
+      </Button>
+    </div>
+  );
+};
@@ -4,9 +4,11 @@ import React, { useState, useEffect } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Modal, ModalFooter } from '@/components/ui/Modal';
 import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
+import { JourneyStepsEditor } from '@/components/urls/JourneyStepsEditor';
 import { urlsApi } from '@/lib/api';
-import type { MonitoredUrl, CreateUrlRequest, UpdateUrlRequest } from '@/types';
+import type { MonitoredUrl, CreateUrlRequest, UpdateUrlRequest, VariantForceMethod, JourneyStep } from '@/types';
 
 export interface UrlFormProps {
   isOpen: boolean;
@@ -21,13 +23,65 @@ interface FormData {
   urlLabel: string;
   isActive: boolean;
   hasActiveTest: boolean;
+  testId: string;
+  variants: string;
+  variantForceMethod: VariantForceMethod | '';
+  variantForceKey: string;
+  journeySteps: JourneyStep[];
   notes: string;
 }
 
 interface FormErrors {
   url?: string;
+  variantForceMethod?: string;
+  variantForceKey?: string;
+  journeySteps?: string;
 }
 
+const FORCE_METHOD_OPTIONS = [
+  { value: '', label: 'Don\'t force variants' },
+  { value: 'query', label: 'Query parameter' },
+  { value: 'cookie', label: 'Cookie' },
+  { value: 'localStorage', label: 'localStorage' },
+];
+
+const FORCE_KEY_PLACEHOLDERS: Record<VariantForceMethod, string> = {
+  query: 'e.g., variant (sets ?variant=B)',
+  cookie: 'e.g., ab_variant',
+  localStorage: 'e.g., ab_variant',
+};
+
+const EMPTY_FORM: FormData = {
+  url: '',
+  urlLabel: '',
+  isActive: true,
+  hasActiveTest: false,
+  testId: '',
+  variants: '',
+  variantForceMethod: '',
+  variantForceKey: '',
+  journeySteps: [],
+  notes: '',
+};
+
+// First problem with a journey step, matching the backend's validation
+const journeyStepError = (step: JourneyStep): string | null => {
+  if (step.action === 'navigate') {
+    return step.url?.trim() ? null : 'URL or path is required';
+  }
+  if (step.action === 'waitForTimeout') {
+    return step.timeout && step.timeout > 0 ? null : 'Wait time is required';
+  }
+  if (step.action !== 'scroll' && !step.selector?.trim()) {
+    return 'Selector is required';
+  }
+  return null;
+};
+
+// Variant names entered as a comma-separated list
+const parseVariants = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map((v) => v.trim()).filter(Boolean)));
+
 export const UrlForm: React.FC<UrlFormProps> = ({
   isOpen,
   onClose,
@@ -36,13 +90,7 @@ export const UrlForm: React.FC<UrlFormProps> = ({
   mode,
 }) => {
   const queryClient = useQueryClient();
-  const [formData, setFormData] = useState<FormData>({
-    url: '',
-    urlLabel: '',
-    isActive: true,
-    hasActiveTest: false,
-    notes: '',
-  });
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
   const [errors, setErrors] = useState<FormErrors>({});
 
   useEffect(() => {
@@ -52,16 +100,15 @@ export const UrlForm: React.FC<UrlFormProps> = ({
         urlLabel: url.urlLabel || '',
         isActive: url.isActive,
         hasActiveTest: url.hasActiveTest,
+        testId: url.testId || '',
+        variants: (url.variants || []).join(', '),
+        variantForceMethod: url.variantForceMethod || '',
+        variantForceKey: url.variantForceKey || '',
+        journeySteps: url.journeySteps || [],
         notes: url.notes || '',
       });
     } else {
-      setFormData({
-        url: '',
-        urlLabel: '',
-        isActive: true,
-        hasActiveTest: false,
-        notes: '',
-      });
+      setFormData(EMPTY_FORM);
     }
     setErrors({});
   }, [url, mode, isOpen]);
@@ -94,6 +141,23 @@ export const UrlForm: React.FC<UrlFormProps> = ({
       newErrors.url = 'Please enter a valid URL (e.g., https://example.com)';
     }
 
+    if (parseVariants(formData.variants).length > 0) {
+      if (!formData.variantForceMethod) {
+        newErrors.variantForceMethod = 'Choose how the variant is forced';
+      }
+      if (!formData.variantForceKey.trim()) {
+        newErrors.variantForceKey = 'Key is required to force variants';
+      }
+    }
+
+    for (const [index, step] of formData.journeySteps.entries()) {
+      const stepError = journeyStepError(step);
+      if (stepError) {
+        newErrors.journeySteps = `Step ${index + 1}: ${stepError}`;
+        break;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -107,6 +171,18 @@ export const UrlForm: React.FC<UrlFormProps> = ({
     }
   };
 
+  // Test, variant and journey fields; empty ones are sent as null so an edit can clear them
+  const checkFields = () => {
+    const variants = parseVariants(formData.variants);
+    return {
+      testId: formData.testId.trim() || null,
+      variants: variants.length > 0 ? variants : null,
+      variantForceMethod: formData.variantForceMethod || null,
+      variantForceKey: formData.variantForceKey.trim() || null,
+      journeySteps: formData.journeySteps.length > 0 ? formData.journeySteps : null,
+    };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -121,6 +197,7 @@ export const UrlForm: React.FC<UrlFormProps> = ({
         urlLabel: formData.urlLabel.trim() || undefined,
         isActive: formData.isActive,
         hasActiveTest: formData.hasActiveTest,
+        ...checkFields(),
         notes: formData.notes.trim() || undefined,
       };
       createMutation.mutate(submitData);
@@ -130,6 +207,7 @@ export const UrlForm: React.FC<UrlFormProps> = ({
         urlLabel: formData.urlLabel.trim() || undefined,
         isActive: formData.isActive,
         hasActiveTest: formData.hasActiveTest,
+        ...checkFields(),
         notes: formData.notes.trim() || undefined,
       };
       updateMutation.mutate(submitData);
@@ -137,13 +215,7 @@ export const UrlForm: React.FC<UrlFormProps> = ({
   };
 
   const handleClose = () => {
-    setFormData({
-      url: '',
-      urlLabel: '',
-      isActive: true,
-      hasActiveTest: false,
-      notes: '',
-    });
+    setFormData(EMPTY_FORM);
     setErrors({});
     onClose();
   };
@@ -156,7 +228,7 @@ export const UrlForm: React.FC<UrlFormProps> = ({
       isOpen={isOpen}
       onClose={handleClose}
       title={mode === 'create' ? 'Add New URL' : 'Edit URL'}
-      size="md"
+      size="lg"
     >
       <form onSubmit={handleSubmit}>
         <div className="space-y-4">
@@ -210,6 +282,52 @@ export const UrlForm: React.FC<UrlFormProps> = ({
             </label>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Test ID"
+              value={formData.testId}
+              onChange={(e) => setFormData({ ...formData, testId: e.target.value })}
+              placeholder="e.g., checkout-cta (optional)"
+              disabled={isLoading}
+            />
+
+            <Input
+              label="Variants"
+              value={formData.variants}
+              onChange={(e) => setFormData({ ...formData, variants: e.target.value })}
+              placeholder="e.g., A, B, C (optional)"
+              helperText="Each variant is checked separately"
+              disabled={isLoading}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Force Variant Via"
+              value={formData.variantForceMethod}
+              onChange={(e) => setFormData({ ...formData, variantForceMethod: e.target.value as VariantForceMethod | '' })}
+              options={FORCE_METHOD_OPTIONS}
+              error={errors.variantForceMethod}
+              disabled={isLoading}
+            />
+
+            <Input
+              label="Force Key"
+              value={formData.variantForceKey}
+              onChange={(e) => setFormData({ ...formData, variantForceKey: e.target.value })}
+              placeholder={formData.variantForceMethod ? FORCE_KEY_PLACEHOLDERS[formData.variantForceMethod] : 'Parameter, cookie or storage key'}
+              error={errors.variantForceKey}
+              disabled={isLoading}
+            />
+          </div>
+
+          <JourneyStepsEditor
+            steps={formData.journeySteps}
+            onChange={(journeySteps) => setFormData({ ...formData, journeySteps })}
+            error={errors.journeySteps}
+            disabled={isLoading}
+          />
+
           <div className="w-full">
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Notes
@@ -23,9 +23,21 @@ import type {
   MonitoringRunWithDetails,
   MonitoringProgressResponse,
   UrlCheckWithDetails,
+  ConsoleMessage,
+  NetworkFailure,
   OverviewStats,
   TrendData,
   GroupedCount,
+  VariantErrorRate,
+  VariantVitalSummary,
+  ReportSource,
+  SourceMap,
+  UploadSourceMapRequest,
+  ScrubRule,
+  CreateScrubRuleRequest,
+  CustomErrorType,
+  CreateCustomErrorTypeRequest,
+  ArtifactKind,
 } from '@/types';
 
 // Create axios instance
@@ -75,6 +87,31 @@ api.interceptors.response.use(
   }
 );
 
+type DownloadableArtifactKind = Exclude<ArtifactKind, 'screenshot'>;
+
+const ARTIFACT_EXTENSIONS: Record<DownloadableArtifactKind, string> = {
+  har: '.har',
+  trace: '-trace.zip',
+  video: '.webm',
+};
+
+// Fetch a file with the auth header into an object URL; revoke it when done
+const fetchObjectUrl = async (url: string): Promise<string> => {
+  const response = await api.get<Blob>(url, { responseType: 'blob' });
+  return URL.createObjectURL(response.data);
+};
+
+// Fetch a file with the auth header and hand it to the browser as a download
+const downloadFile = async (url: string, filename: string): Promise<void> => {
+  const objectUrl = await fetchObjectUrl(url);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = filename;
+  link.click();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+};
+
 // ============================================================================
 // AUTH API
 // ============================================================================
@@ -125,6 +162,44 @@ export const clientsApi = {
     const response = await api.patch(`/clients/${id}/status`);
     return response.data;
   },
+
+  regenerateSiteKey: async (id: number): Promise<{ siteKey: string; message: string }> => {
+    const response = await api.post(`/clients/${id}/site-key`);
+    return response.data;
+  },
+
+  getScrubRules: async (id: number): Promise<ScrubRule[]> => {
+    const response = await api.get<ScrubRule[]>(`/clients/${id}/scrub-rules`);
+    return response.data;
+  },
+
+  createScrubRule: async (id: number, data: CreateScrubRuleRequest): Promise<{ ruleId: number; message: string }> => {
+    const response = await api.post(`/clients/${id}/scrub-rules`, data);
+    return response.data;
+  },
+
+  deleteScrubRule: async (id: number, ruleId: number): Promise<{ message: string }> => {
+    const response = await api.delete(`/clients/${id}/scrub-rules/${ruleId}`);
+    return response.data;
+  },
+
+  getErrorTypes: async (id: number): Promise<CustomErrorType[]> => {
+    const response = await api.get<CustomErrorType[]>(`/clients/${id}/error-types`);
+    return response.data;
+  },
+
+  createErrorType: async (
+    id: number,
+    data: CreateCustomErrorTypeRequest
+  ): Promise<{ errorTypeId: number; message: string }> => {
+    const response = await api.post(`/clients/${id}/error-types`, data);
+    return response.data;
+  },
+
+  deleteErrorType: async (id: number, errorTypeId: number): Promise<{ message: string }> => {
+    const response = await api.delete(`/clients/${id}/error-types/${errorTypeId}`);
+    return response.data;
+  },
 };
 
 // ============================================================================
@@ -256,6 +331,15 @@ export const failuresApi = {
   getScreenshotUrl: (id: number): string => {
     return `${api.defaults.baseURL}/failures/${id}/screenshot`;
   },
+
+  downloadArtifact: async (id: number, kind: DownloadableArtifactKind): Promise<void> => {
+    await downloadFile(`/failures/${id}/${kind}`, `failure-${id}${ARTIFACT_EXTENSIONS[kind]}`);
+  },
+
+  // Object URL for the inline player; a <video> element can't send the auth header
+  getVideoObjectUrl: async (id: number): Promise<string> => {
+    return await fetchObjectUrl(`/failures/${id}/video`);
+  },
 };
 
 // ============================================================================
@@ -285,6 +369,20 @@ export const monitoringApi = {
     return response.data;
   },
 
+  getRunConsole: async (runId: number): Promise<ConsoleMessage[]> => {
+    const response = await api.get<ConsoleMessage[]>(`/monitoring/runs/${runId}/console`);
+    return response.data;
+  },
+
+  getRunNetwork: async (runId: number): Promise<NetworkFailure[]> => {
+    const response = await api.get<NetworkFailure[]>(`/monitoring/runs/${runId}/network`);
+    return response.data;
+  },
+
+  downloadCheckArtifact: async (checkId: number, kind: DownloadableArtifactKind): Promise<void> => {
+    await downloadFile(`/monitoring/checks/${checkId}/${kind}`, `check-${checkId}${ARTIFACT_EXTENSIONS[kind]}`);
+  },
+
   getProgress: async (): Promise<MonitoringProgressResponse> => {
     const response = await api.get<MonitoringProgressResponse>('/monitoring/progress');
     return response.data;
@@ -335,6 +433,24 @@ export const analyticsApi = {
     return response.data;
   },
 
+  getErrorRates: async (days?: number, source?: ReportSource): Promise<VariantErrorRate[]> => {
+    const response = await api.get<VariantErrorRate[]>('/analytics/error-rates', {
+      params: { days, source },
+    });
+    return response.data;
+  },
+
+  getVitals: async (
+    days?: number,
+    source?: ReportSource,
+    testId?: string
+  ): Promise<VariantVitalSummary[]> => {
+    const response = await api.get<VariantVitalSummary[]>('/analytics/vitals', {
+      params: { days, source, test_id: testId },
+    });
+    return response.data;
+  },
+
   getClientStats: async (clientId: number): Promise<any> => {
     const response = await api.get(`/analytics/client/${clientId}`);
     return response.data;
@@ -346,4 +462,27 @@ export const analyticsApi = {
   },
 };
 
+// ============================================================================
+// SOURCE MAPS API
+// ============================================================================
+
+export const sourceMapsApi = {
+  getSourceMaps: async (clientId?: number, testId?: string): Promise<SourceMap[]> => {
+    const response = await api.get<SourceMap[]>('/source-maps', {
+      params: { client_id: clientId, test_id: testId },
+    });
+    return response.data;
+  },
+
+  uploadSourceMap: async (data: UploadSourceMapRequest): Promise<{ sourceMapId: number; message: string }> => {
+    const response = await api.post('/source-maps', data);
+    return response.data;
+  },
+
+  deleteSourceMap: async (id: number): Promise<{ message: string }> => {
+    const response = await api.delete(`/source-maps/${id}`);
+    return response.data;
+  },
+};
+
 export default api;
@@ -14,11 +14,40 @@ export interface Client {
   companyName: string | null;
   email: string | null;
   contactPerson: string | null;
+  siteKey: string | null;
   createdAt: Date;
   isActive: boolean;
   notes: string | null;
 }
 
+// How a page lets the crawler force a variant: query parameter, cookie or localStorage key
+export type VariantForceMethod = 'query' | 'cookie' | 'localStorage';
+
+// Actions a journey step can perform before the error cookie is read
+export type JourneyStepAction =
+  | 'navigate'
+  | 'click'
+  | 'fill'
+  | 'hover'
+  | 'scroll'
+  | 'waitForSelector'
+  | 'waitForTimeout';
+
+export interface JourneyStep {
+  action: JourneyStepAction;
+  selector?: string;
+  url?: string;
+  value?: string;
+  timeout?: number;  // ms
+}
+
+export interface JourneyStepTiming {
+  step: number;  // 1-based
+  action: JourneyStepAction;
+  durationMs: number;
+  error?: string;
+}
+
 export interface MonitoredUrl {
   urlId: number;
   clientId: number;
@@ -26,6 +55,11 @@ export interface MonitoredUrl {
   urlLabel: string | null;
   isActive: boolean;
   hasActiveTest: boolean;
+  testId: string | null;
+  variants: string[] | null;  // checked one by one when a force method and key are set
+  variantForceMethod: VariantForceMethod | null;
+  variantForceKey: string | null;
+  journeySteps: JourneyStep[] | null;
   lastCheckedAt: Date | null;
   createdAt: Date;
   notes: string | null;
@@ -40,6 +74,7 @@ export interface BrowserConfiguration {
   viewportWidth: number | null;
   viewportHeight: number | null;
   userAgent: string | null;
+  recordVideo: boolean;  // keep a video of checks that find errors or fail
   isActive: boolean;
 }
 
@@ -77,12 +112,15 @@ export interface UrlCheck {
   runId: number;
   urlId: number;
   configId: number;
+  forcedVariant: string | null;
   checkedAt: Date;
   pageLoadTimeMs: number | null;
   cookieFound: boolean;
   errorDetected: boolean;
   checkStatus: 'success' | 'timeout' | 'error' | 'unreachable';
   errorMessage: string | null;
+  stepTimings: JourneyStepTiming[] | null;
+  failedStep: number | null;  // journey step that could not complete
 }
 
 // Extended UrlCheck with joined data from related tables
@@ -92,19 +130,61 @@ export interface UrlCheckWithDetails extends UrlCheck {
   clientName: string;
   browserName: string;
   deviceType: 'desktop' | 'mobile' | 'tablet';
+  consoleMessageCount: number;
+  networkFailureCount: number;
+  hasHar: number;    // 0/1 flags from MySQL EXISTS
+  hasTrace: number;
+  hasVideo: number;
+}
+
+// 'console' failures are console errors matching the backend's CONSOLE_FAILURE_PATTERNS
+export type FailureSource = 'crawler' | 'rum' | 'console';
+// Exposures and vitals only come from the crawler or real users
+export type ReportSource = Exclude<FailureSource, 'console'>;
+
+// console.error() output or an uncaught exception ('pageerror') seen during a check
+export type ConsoleMessageKind = 'console' | 'pageerror';
+
+export interface ConsoleMessage {
+  messageId: number;
+  checkId: number;
+  kind: ConsoleMessageKind;
+  message: string;
+  sourceUrl: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  occurrenceCount: number;
+  loggedAt: Date;
+}
+
+// Request that failed outright or got a 4xx/5xx response during a check
+export interface NetworkFailure {
+  networkFailureId: number;
+  checkId: number;
+  url: string;
+  method: string;
+  status: number | null;  // null when no response was received
+  failureText: string | null;
+  resourceType: string;
+  durationMs: number | null;
+  occurrenceCount: number;
+  loggedAt: Date;
 }
 
 export interface DetectedFailure {
   failureId: number;
-  checkId: number;
+  checkId: number | null;
   urlId: number;
   clientId: number;
+  source: FailureSource;
   testId: string;
   variant: string;
   errorType: string;
   errorMessage: string;
   browserFromCookie: string | null;
   timestampFromCookie: Date | null;
+  stackTrace: StackFrame[] | null;
+  occurrenceCount: number;
   detectedAt: Date;
   resolutionStatus: 'new' | 'acknowledged' | 'investigating' | 'resolved' | 'ignored';
   resolvedAt: Date | null;
@@ -112,9 +192,61 @@ export interface DetectedFailure {
   resolutionNotes: string | null;
 }
 
-export interface FailureScreenshot {
-  screenshotId: number;
-  failureId: number;
+export interface SourceMap {
+  sourceMapId: number;
+  clientId: number;
+  testId: string;
+  fileUrl: string;
+  filePath: string;
+  uploadedAt: Date;
+}
+
+export interface UploadSourceMapRequest {
+  clientId: number;
+  testId: string;
+  fileUrl: string;
+  sourceMap: string;  // raw JSON text, so its keys aren't case-transformed
+}
+
+export interface ScrubRule {
+  ruleId: number;
+  clientId: number;
+  pattern: string;
+  replacement: string;
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface CreateScrubRuleRequest {
+  pattern: string;
+  replacement?: string;
+  description?: string;
+}
+
+export interface CustomErrorType {
+  errorTypeId: number;
+  clientId: number;
+  code: string;
+  name: string;
+  description: string | null;
+  createdAt: Date;
+}
+
+export interface CreateCustomErrorTypeRequest {
+  code: string;
+  name: string;
+  description?: string;
+}
+
+export type ArtifactKind = 'screenshot' | 'har' | 'trace' | 'video';
+
+// Screenshot, HAR file, Playwright trace or video kept for a check
+export interface Artifact {
+  artifactId: number;
+  checkId: number;
+  failureId: number | null;
+  kind: ArtifactKind;
   filePath: string;
   capturedAt: Date;
 }
@@ -127,6 +259,16 @@ export interface ABTestErrorCookie {
   errorMessage: string;
   browser: string;
   timestamp: string;
+  stackTrace?: StackFrame[];
+  occurrences?: number;
+}
+
+// Decoded stack frame reported by the SDK
+export interface StackFrame {
+  functionName: string | null;
+  file: string;
+  line: number;
+  column: number;
 }
 
 // Request/Response types
@@ -173,6 +315,11 @@ export interface CreateUrlRequest {
   urlLabel?: string;
   isActive?: boolean;
   hasActiveTest?: boolean;
+  testId?: string | null;
+  variants?: string[] | null;
+  variantForceMethod?: VariantForceMethod | null;
+  variantForceKey?: string | null;
+  journeySteps?: JourneyStep[] | null;
   notes?: string;
 }
 
@@ -181,6 +328,11 @@ export interface UpdateUrlRequest {
   urlLabel?: string;
   isActive?: boolean;
   hasActiveTest?: boolean;
+  testId?: string | null;
+  variants?: string[] | null;
+  variantForceMethod?: VariantForceMethod | null;
+  variantForceKey?: string | null;
+  journeySteps?: JourneyStep[] | null;
   notes?: string;
 }
 
@@ -192,6 +344,7 @@ export interface CreateBrowserConfigRequest {
   viewportWidth?: number;
   viewportHeight?: number;
   userAgent?: string;
+  recordVideo?: boolean;
   isActive?: boolean;
 }
 
@@ -203,6 +356,7 @@ export interface UpdateBrowserConfigRequest {
   viewportWidth?: number;
   viewportHeight?: number;
   userAgent?: string;
+  recordVideo?: boolean;
   isActive?: boolean;
 }
 
@@ -222,6 +376,7 @@ export interface FailureFilters {
   testId?: string;
   errorType?: string;
   resolutionStatus?: string;
+  source?: FailureSource;
   dateFrom?: string;
   dateTo?: string;
   browser?: string;
@@ -235,7 +390,7 @@ export interface BrowserCheckResult {
   pageLoadTimeMs: number | null;
   cookieFound: boolean;
   errorDetected: boolean;
-  errorData: ABTestErrorCookie | null;
+  errorData: ABTestErrorCookie[] | null;
   screenshotPath: string | null;
   checkStatus: 'success' | 'timeout' | 'error';
   errorMessage: string | null;
@@ -263,6 +418,25 @@ export interface GroupedCount {
   count: number;
 }
 
+export interface VariantErrorRate {
+  testId: string;
+  variant: string;
+  exposures: number;
+  failures: number;
+  errorRate: number;  // failures per exposure
+}
+
+export type WebVitalMetric = 'LCP' | 'CLS' | 'INP' | 'TTFB';
+
+export interface VariantVitalSummary {
+  testId: string;
+  variant: string;
+  metric: WebVitalMetric;
+  samples: number;
+  p75: number;     // milliseconds; unitless for CLS
+  average: number;
+}
+
 // Extended types with joins
 export interface ClientWithStats extends Client {
   urlCount: number;
@@ -272,9 +446,13 @@ export interface ClientWithStats extends Client {
 export interface FailureWithDetails extends DetectedFailure {
   clientName: string;
   url: string;
-  browserName: string;
-  deviceType: string;
+  browserName: string | null;  // null for real-user (RUM) failures
+  deviceType: string | null;
   screenshotPath: string | null;
+  forcedVariant: string | null;  // variant the crawler forced for the check, if any
+  // Original positions for stackTrace frames (null where no source map matched)
+  symbolicatedStackTrace?: (StackFrame | null)[] | null;
+  artifacts?: Pick<Artifact, 'artifactId' | 'kind' | 'capturedAt'>[];
 }
 
 export interface MonitoringRunWithDetails extends MonitoringRun {